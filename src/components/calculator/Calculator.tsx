@@ -1,114 +1,1293 @@
 "use client";
 
-import { Calculator as CalculatorLogic, ExpressionToken, HistoryItem, Operation, SavedVariable, VariableColor } from "@/lib/calculator";
-import { Bookmark, History, Save, X } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import { Calculator as CalculatorLogic, CalculatorSettings, DEFAULT_MEMORY_REGISTER, ExpressionToken, GoalSeekResult, HistoryItem, Operation, SavedVariable, VariableColor } from "@/lib/calculator";
+import { CalculatorStore, createBrowserStorageAdapter } from "@/lib/storage";
+import { MathConstant, MathFunction } from "@/lib/functions";
+import { TAX_RATES, TaxOperator, TaxSettings } from "@/lib/percent";
+import { ExpressionParseError, formatSymbol } from "@/lib/expressionText";
+import { CalculationError, CalculationErrorKind } from "@/lib/errors";
+import { FormulaError, getFormulaText } from "@/lib/formulas";
+import { useCalculator } from "@/lib/useCalculator";
+import { EXPORT_FORMATS, ExportFormat, exportHistory, exportVariables } from "@/lib/exporters";
+import { MAX_ROUNDING_DIGITS, ROUNDING_MODES, RoundingRule } from "@/lib/rounding";
+import { MAX_FIXED_DECIMALS, NUMBER_LOCALES, NumberFormatSettings, NumberLocale, formatQuantity } from "@/lib/format";
+import { RoundingMode } from "@/lib/decimal";
+import { SheetLineResult } from "@/lib/sheet";
+import { FormulaTemplate, describeTemplateTokens } from "@/lib/templates";
+import { ConflictResolution, ImportFormatError, ImportPlanEntry, ParsedImport, parseVariableImport, planVariableImport } from "@/lib/importers";
+import { Bookmark, ClipboardCopy, Copy, Download, FileSpreadsheet, History, LayoutTemplate, Pencil, Play, Plus, Redo2, RefreshCw, Save, Settings2, Square, SquareCheck, SquareFunction, Target, Trash2, Undo2, Upload, X } from "lucide-react";
+import { memo, useCallback, useEffect, useState } from "react";
 
 // Forcing rebuild
 
+const ERROR_MESSAGES: Record<CalculationErrorKind, string> = {
+  divisionByZero: "0で割ることはできません",
+  mismatchedParentheses: "括弧が対応していません",
+  invalidExpression: "式が正しくありません",
+  overflow: "桁数が大きすぎます",
+  unitMismatch: "単位が一致しません",
+};
+
+// Format picker with download / copy-to-clipboard actions for a side panel
+function ExportControls({ fileName, build, onMessage }: {
+  fileName: string,
+  build: (format: ExportFormat) => string,
+  onMessage: (message: string) => void
+}) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+
+  const download = () => {
+    const info = EXPORT_FORMATS[format];
+    // BOM so spreadsheet apps read the CSV as UTF-8 (Japanese labels and units)
+    const content = (format === "csv" ? "\uFEFF" : "") + build(format);
+    const url = URL.createObjectURL(new Blob([content], { type: `${info.mimeType};charset=utf-8` }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName}.${info.extension}`;
+    link.click();
+    // Some browsers start the download only after click() returns; revoking right away can cancel it
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const copy = () => {
+    navigator.clipboard.writeText(build(format))
+      .then(() => onMessage("コピーしました"))
+      .catch(() => onMessage("コピーできませんでした"));
+  };
+
+  return (
+    <div className="flex items-center gap-1 mb-3">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white/80 text-xs outline-none focus:border-neutral-500"
+      >
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+          <option key={f} value={f} className="bg-neutral-800">{EXPORT_FORMATS[f].label}</option>
+        ))}
+      </select>
+      <button
+        onClick={download}
+        className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+        title="Download"
+      >
+        <Download size={16} />
+      </button>
+      <button
+        onClick={copy}
+        className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+        title="Copy to clipboard"
+      >
+        <ClipboardCopy size={16} />
+      </button>
+    </div>
+  );
+}
+
+const CONFLICT_LABELS: Record<ConflictResolution, string> = {
+  skip: "Skip",
+  overwrite: "Overwrite",
+  rename: "Rename",
+};
+
+const ACTION_STYLES: Record<ImportPlanEntry["action"], string> = {
+  create: "text-green-400",
+  overwrite: "text-yellow-400",
+  rename: "text-blue-400",
+  skip: "text-white/30",
+};
+
+// Preview of a variable import: per-row action, label conflict choices and rows that failed validation
+function ImportPreview({ fileName, parsed, variables, onCancel, onConfirm }: {
+  fileName: string,
+  parsed: ParsedImport,
+  variables: SavedVariable[],
+  onCancel: () => void,
+  onConfirm: (plan: ImportPlanEntry[]) => void
+}) {
+  const [onConflict, setOnConflict] = useState<ConflictResolution>("skip");
+  const [overrides, setOverrides] = useState<Record<number, ConflictResolution>>({});
+  const plan = planVariableImport(parsed.rows, variables, { onConflict, overrides });
+  const writeCount = plan.filter(entry => entry.action !== "skip").length;
+  const hasConflicts = plan.some(entry => entry.existing);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col p-6 animate-fade-in">
+      <h3 className="text-white text-lg font-medium mb-1 text-center">Import Variables</h3>
+      <div className="text-white/40 text-xs mb-4 text-center truncate">{fileName}</div>
+
+      {hasConflicts && (
+        <div className="flex items-center justify-between gap-2 mb-3 text-sm text-white/70">
+          <span>Existing labels</span>
+          <select
+            value={onConflict}
+            onChange={(e) => { setOnConflict(e.target.value as ConflictResolution); setOverrides({}); }}
+            className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white/80 outline-none focus:border-neutral-500"
+          >
+            {(Object.keys(CONFLICT_LABELS) as ConflictResolution[]).map(r => (
+              <option key={r} value={r} className="bg-neutral-800">{CONFLICT_LABELS[r]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1 mb-4">
+        {plan.map(entry => (
+          <div key={entry.row} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-white/5 text-sm">
+            <div className="flex flex-col min-w-0">
+              <span className="text-white truncate">
+                {entry.targetLabel}
+                {entry.targetLabel !== entry.label && <span className="text-white/40"> ← {entry.label}</span>}
+              </span>
+              <span className="text-white/50 text-xs">
+                {entry.value}{entry.unit ? ` ${entry.unit}` : ""}
+                {entry.existing && entry.action === "overwrite" && ` (was ${entry.existing.value}${entry.existing.unit ? ` ${entry.existing.unit}` : ""})`}
+              </span>
+            </div>
+            {entry.existing ? (
+              <select
+                value={entry.action}
+                onChange={(e) => setOverrides({ ...overrides, [entry.row]: e.target.value as ConflictResolution })}
+                className={`bg-white/5 border border-white/10 rounded-lg px-1 py-0.5 text-xs outline-none ${ACTION_STYLES[entry.action]}`}
+              >
+                {(Object.keys(CONFLICT_LABELS) as ConflictResolution[]).map(r => (
+                  <option key={r} value={r} className="bg-neutral-800 text-white">{CONFLICT_LABELS[r]}</option>
+                ))}
+              </select>
+            ) : (
+              <span className={`text-xs ${ACTION_STYLES[entry.action]}`}>New</span>
+            )}
+          </div>
+        ))}
+        {parsed.errors.map(error => (
+          <div key={`error-${error.row}`} className="p-2 rounded-lg bg-red-500/10 text-red-300 text-xs">
+            Row {error.row}: {error.message}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3 w-full">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-white font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(plan)}
+          disabled={writeCount === 0}
+          className="flex-1 py-3 bg-neutral-500 hover:bg-neutral-400 disabled:opacity-40 disabled:hover:bg-neutral-500 rounded-xl text-white font-medium shadow-lg transition-colors"
+        >
+          Import {writeCount}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Keys typed into text fields (sheet lines) must not reach the keypad shortcuts
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+// One sheet line: edits are kept locally and applied on blur / Enter, so each edit is one undo step
+function SheetLineRow({ line, numberFormat, onChange, onRemove }: {
+  line: SheetLineResult,
+  numberFormat: NumberFormatSettings,
+  onChange: (changes: { label?: string, text?: string }) => void,
+  onRemove: () => void
+}) {
+  const [label, setLabel] = useState(line.label);
+  const [text, setText] = useState(line.text);
+  const commit = () => {
+    if (label !== line.label || text !== line.text) onChange({ label, text });
+  };
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+  };
+
+  return (
+    <div className="relative group/item p-2 rounded-lg bg-white/5">
+      <div className="flex items-center gap-1">
+        <span className="w-6 text-[10px] text-white/30" title={`Refer to as #${line.number}`}>#{line.number}</span>
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          placeholder="Label"
+          className="w-16 bg-transparent border-b border-white/10 text-neutral-300 text-xs outline-none focus:border-neutral-500"
+        />
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          placeholder="1200円 × 3"
+          className="flex-1 min-w-0 bg-transparent border-b border-white/10 text-white/80 text-sm outline-none focus:border-neutral-500"
+        />
+        <button
+          onClick={onRemove}
+          className="p-0.5 rounded-full text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+          title="Remove line"
+        >
+          <X size={12} />
+        </button>
+      </div>
+      {line.error ? (
+        <div className="mt-1 text-right text-red-400 text-xs break-all" title={line.error.message}>{ERROR_MESSAGES[line.error.kind]}</div>
+      ) : line.value !== null && (
+        <div className="mt-1 text-right text-white font-medium break-all">{formatQuantity(line.value, line.unit, numberFormat)}</div>
+      )}
+    </div>
+  );
+}
+
+const formulaErrorMessage = (error: unknown): string => {
+  if (error instanceof FormulaError) {
+    switch (error.kind) {
+      case "cycle": return `循環参照です (${error.labels.join(" → ")})`;
+      case "inUse": return `${error.labels.join("、")}で使われているため削除できません`;
+    }
+  }
+  if (error instanceof ExpressionParseError) {
+    if (error.unknownVariable) return `変数「${error.unknownVariable}」がありません`;
+    return `式を読み取れませんでした (${error.message})`;
+  }
+  if (error instanceof CalculationError) return ERROR_MESSAGES[error.kind];
+  return "保存できませんでした";
+};
+
+// Label + formula editor for a formula variable; `onSave` returns an error message to keep the dialog open
+function FormulaDialog({ initial, variables, onCancel, onSave }: {
+  initial: { label: string, formula: string },
+  variables: SavedVariable[],
+  onCancel: () => void,
+  onSave: (label: string, formula: string) => string | null
+}) {
+  const [label, setLabel] = useState(initial.label);
+  const [formula, setFormula] = useState(initial.formula);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    if (!label.trim() || !formula.trim()) return;
+    setError(onSave(label.trim(), formula));
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col p-6 animate-fade-in">
+      <h3 className="text-white text-lg font-medium mb-4 text-center">Formula</h3>
+
+      <div className="text-white/50 text-xs mb-1">Name</div>
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        placeholder="粗利"
+        className={`mb-3 ${selectClassName}`}
+      />
+      <div className="text-white/50 text-xs mb-1">Formula</div>
+      <input
+        value={formula}
+        onChange={(e) => { setFormula(e.target.value); setError(null); }}
+        onKeyDown={(e) => { if (e.key === "Enter") save(); }}
+        placeholder="売価 - 原価"
+        className={`mb-2 ${selectClassName}`}
+      />
+      {error && <div className="text-red-400 text-xs mb-2 break-all">{error}</div>}
+
+      <div className="flex-1 overflow-y-auto mb-4">
+        <div className="flex flex-wrap gap-1">
+          {variables.filter(v => v.label !== label.trim()).map(v => (
+            <button
+              key={v.id}
+              onClick={() => setFormula(formula.trim() ? `${formula.trimEnd()} ${v.label}` : v.label)}
+              className="px-2 py-0.5 rounded-full bg-white/5 hover:bg-white/10 text-white/70 text-xs transition-colors"
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3 w-full">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-white font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={!label.trim() || !formula.trim()}
+          className="flex-1 py-3 bg-neutral-500 hover:bg-neutral-400 rounded-xl text-white font-medium shadow-lg transition-colors disabled:opacity-30"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Parameter prompts for running a template; `onRun` returns an error message to keep the dialog open
+function TemplateDialog({ template, defaults, onCancel, onRun }: {
+  template: FormulaTemplate,
+  defaults: string[],
+  onCancel: () => void,
+  onRun: (values: string[]) => string | null
+}) {
+  const [values, setValues] = useState(defaults);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = () => setError(onRun(values.map(v => v.replace(/,/g, "").trim())));
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col p-6 animate-fade-in">
+      <h3 className="text-white text-lg font-medium mb-1 text-center break-all">{template.name}</h3>
+      <div className="text-white/40 text-xs mb-4 text-center break-all">{describeTemplateTokens(template.tokens)}</div>
+
+      <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+        {template.parameters.map((parameter, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="w-20 text-white/70 text-sm truncate" title={parameter.label}>{parameter.label}</span>
+            <input
+              value={values[i]}
+              inputMode="decimal"
+              autoFocus={i === 0}
+              onChange={(e) => { setValues(values.map((v, j) => j === i ? e.target.value : v)); setError(null); }}
+              onKeyDown={(e) => { if (e.key === "Enter") run(); }}
+              className={`flex-1 min-w-0 text-right ${selectClassName}`}
+            />
+            <span className="w-8 text-white/50 text-sm">{parameter.unit ?? ""}</span>
+          </div>
+        ))}
+      </div>
+      {error && <div className="text-red-400 text-xs mb-2 text-center">{error}</div>}
+
+      <div className="flex gap-3 w-full">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-white font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={run}
+          className="flex-1 py-3 bg-neutral-500 hover:bg-neutral-400 rounded-xl text-white font-medium shadow-lg transition-colors"
+        >
+          Calculate
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Target prompt for solving the expression for one operand; `onSolve` returns null for an unreadable target.
+// Several solutions are listed for the user to pick one.
+function GoalSeekDialog({ label, unit, numberFormat, onCancel, onSolve, onPick }: {
+  label: string,
+  unit: string | null,
+  numberFormat: NumberFormatSettings,
+  onCancel: () => void,
+  onSolve: (target: string) => GoalSeekResult | null,
+  onPick: (value: string) => void
+}) {
+  const [target, setTarget] = useState("");
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  const solve = () => {
+    const solved = onSolve(target.replace(/,/g, "").trim());
+    setInvalid(solved === null);
+    setResult(solved);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col p-6 animate-fade-in">
+      <h3 className="text-white text-lg font-medium mb-4 text-center break-all">Solve for {label}</h3>
+
+      <div className="text-white/50 text-xs mb-1">Target result</div>
+      <div className="flex items-center gap-2 mb-3">
+        <input
+          value={target}
+          inputMode="decimal"
+          autoFocus
+          onChange={(e) => { setTarget(e.target.value); setResult(null); setInvalid(false); }}
+          onKeyDown={(e) => { if (e.key === "Enter") solve(); }}
+          placeholder="100,000"
+          className={`flex-1 min-w-0 text-right ${selectClassName}`}
+        />
+        {unit && <span className="text-white/50 text-sm">{unit}</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto mb-4 text-sm">
+        {invalid && <div className="text-red-400 text-center">目標値が正しくありません</div>}
+        {result?.kind === "none" && <div className="text-red-400 text-center">解が見つかりませんでした</div>}
+        {result?.kind === "any" && <div className="text-white/60 text-center">どの値でも目標値になります</div>}
+        {result?.kind === "multiple" && (
+          <>
+            <div className="text-white/60 text-center mb-2">解が複数あります。使う値を選んでください</div>
+            <div className="flex flex-wrap justify-center gap-2">
+              {result.values.map(value => (
+                <button
+                  key={value}
+                  onClick={() => onPick(value)}
+                  className="px-3 py-1 rounded-full bg-white/5 hover:bg-white/10 text-white/80 transition-colors"
+                >
+                  {formatQuantity(value, null, numberFormat)}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex gap-3 w-full">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-white font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={solve}
+          disabled={!target.trim()}
+          className="flex-1 py-3 bg-neutral-500 hover:bg-neutral-400 rounded-xl text-white font-medium shadow-lg transition-colors disabled:opacity-30"
+        >
+          Solve
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const ROUNDING_LABELS: Record<RoundingMode, string> = {
+  halfUp: "Round half up",
+  halfEven: "Round half even",
+  floor: "Floor",
+  ceil: "Ceil",
+  truncate: "Truncate",
+};
+
+const selectClassName = "bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white/80 text-sm outline-none focus:border-neutral-500";
+
+// Mode + decimal places editor for one rounding rule (`allowNone` adds the "no rounding" choice)
+function RoundingRuleInput({ rule, allowNone, onChange }: {
+  rule: RoundingRule | null,
+  allowNone: boolean,
+  onChange: (rule: RoundingRule | null) => void
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={rule ? rule.mode : "none"}
+        onChange={(e) => onChange(e.target.value === "none" ? null : { mode: e.target.value as RoundingMode, digits: rule?.digits ?? 0 })}
+        className={`flex-1 ${selectClassName}`}
+      >
+        {allowNone && <option value="none" className="bg-neutral-800">No rounding</option>}
+        {ROUNDING_MODES.map(mode => (
+          <option key={mode} value={mode} className="bg-neutral-800">{ROUNDING_LABELS[mode]}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={0}
+        max={MAX_ROUNDING_DIGITS}
+        value={rule ? rule.digits : ""}
+        disabled={!rule}
+        onChange={(e) => rule && onChange({ ...rule, digits: Math.min(MAX_ROUNDING_DIGITS, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+        className={`w-14 text-right disabled:opacity-30 ${selectClassName}`}
+        title="Decimal places"
+      />
+    </div>
+  );
+}
+
+// Number format, consumption tax rate and rounding (global rule and per-unit overrides, e.g. 円 -> integer)
+function SettingsDialog({ initial, onCancel, onSave }: {
+  initial: CalculatorSettings,
+  onCancel: () => void,
+  onSave: (settings: CalculatorSettings) => void
+}) {
+  const [format, setFormat] = useState<NumberFormatSettings>(initial.format);
+  const [tax, setTax] = useState<TaxSettings>(initial.tax);
+  const [rule, setRule] = useState<RoundingRule | null>(initial.rounding.rule);
+  const [units, setUnits] = useState<{ unit: string, rule: RoundingRule }[]>(
+    Object.entries(initial.rounding.units).map(([unit, unitRule]) => ({ unit, rule: unitRule }))
+  );
+
+  const save = () => {
+    const unitRules: Record<string, RoundingRule> = {};
+    units.filter(u => u.unit.trim()).forEach(u => { unitRules[u.unit.trim()] = u.rule; });
+    onSave({ rounding: { rule, units: unitRules }, format, tax });
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col p-6 animate-fade-in">
+      <h3 className="text-white text-lg font-medium mb-4 text-center">Settings</h3>
+
+      <div className="text-white/50 text-xs mb-1">Number format</div>
+      <div className="flex items-center gap-2 mb-2">
+        <select
+          value={format.locale}
+          onChange={(e) => setFormat({ ...format, locale: e.target.value as NumberLocale })}
+          className={`flex-1 ${selectClassName}`}
+        >
+          {(Object.keys(NUMBER_LOCALES) as NumberLocale[]).map(locale => (
+            <option key={locale} value={locale} className="bg-neutral-800">{NUMBER_LOCALES[locale].label}</option>
+          ))}
+        </select>
+        <select
+          value={format.fixedDecimals === null ? "auto" : String(format.fixedDecimals)}
+          onChange={(e) => setFormat({ ...format, fixedDecimals: e.target.value === "auto" ? null : parseInt(e.target.value, 10) })}
+          className={selectClassName}
+          title="Decimal places"
+        >
+          <option value="auto" className="bg-neutral-800">Auto</option>
+          {Array.from({ length: MAX_FIXED_DECIMALS + 1 }, (_, n) => (
+            <option key={n} value={n} className="bg-neutral-800">{n} dp</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-4 mb-5 text-sm text-white/70">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={format.japaneseUnits} onChange={(e) => setFormat({ ...format, japaneseUnits: e.target.checked })} />
+          万・億
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={format.fullWidth} onChange={(e) => setFormat({ ...format, fullWidth: e.target.checked })} />
+          全角
+        </label>
+      </div>
+
+      <div className="text-white/50 text-xs mb-1">Consumption tax (税込 / 税抜)</div>
+      <select
+        value={tax.rate}
+        onChange={(e) => setTax({ rate: e.target.value })}
+        className={`w-full mb-5 ${selectClassName}`}
+      >
+        {TAX_RATES.map(rate => (
+          <option key={rate} value={rate} className="bg-neutral-800">{rate}%</option>
+        ))}
+      </select>
+
+      <div className="text-white/50 text-xs mb-1">Rounding (all results)</div>
+      <RoundingRuleInput rule={rule} allowNone onChange={setRule} />
+
+      <div className="text-white/50 text-xs mt-5 mb-1">Rounding per unit</div>
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1 mb-4">
+        {units.map((entry, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={entry.unit}
+              onChange={(e) => setUnits(units.map((u, j) => j === i ? { ...u, unit: e.target.value } : u))}
+              placeholder="Unit"
+              className={`w-16 ${selectClassName}`}
+            />
+            <div className="flex-1">
+              <RoundingRuleInput
+                rule={entry.rule}
+                allowNone={false}
+                onChange={(next) => next && setUnits(units.map((u, j) => j === i ? { ...u, rule: next } : u))}
+              />
+            </div>
+            <button
+              onClick={() => setUnits(units.filter((_, j) => j !== i))}
+              className="p-1 text-white/40 hover:text-white transition-colors"
+              title="Remove"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setUnits([...units, { unit: units.some(u => u.unit === "円") ? "" : "円", rule: { mode: "halfUp", digits: 0 } }])}
+          className="flex items-center gap-1 text-white/50 hover:text-white text-sm transition-colors"
+        >
+          <Plus size={14} /> Add unit
+        </button>
+      </div>
+
+      <div className="flex gap-3 w-full">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-white font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          className="flex-1 py-3 bg-neutral-500 hover:bg-neutral-400 rounded-xl text-white font-medium shadow-lg transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Keypad key; `active` highlights the operator waiting for its second operand
+function Button({ label, onClick, className = "", variant = "default", icon, active = false }: {
+  label?: string,
+  onClick: () => void,
+  className?: string,
+  variant?: "default" | "primary" | "secondary",
+  icon?: React.ReactNode,
+  active?: boolean
+}) {
+  // Tiled layout styles: rectangular, no gaps (handled by grid container), no roundness
+  const baseStyles = "h-16 sm:h-24 w-full text-2xl font-medium transition-colors duration-200 active:bg-white/20 flex items-center justify-center select-none rounded-none";
+  let variantStyles = "bg-white/5 hover:bg-white/10 text-white";
+
+  if (variant === "primary") {
+    variantStyles = active ? "bg-white text-orange-600" : "bg-orange-500 hover:bg-orange-400 text-white";
+  } else if (variant === "secondary") {
+    variantStyles = "bg-white/10 hover:bg-white/15 text-gray-200";
+  }
+
+  return (
+    <button
+      onClick={onClick}
+      className={`${baseStyles} ${variantStyles} ${className}`}
+    >
+      {icon ? icon : label}
+    </button>
+  );
+}
+
+// History keeps the labels from calculation time; numbers are re-formatted with the current settings
+const formatTokenValue = (token: ExpressionToken, numberFormat: NumberFormatSettings) =>
+  token.type === 'operand' || token.type === 'ans' ? formatQuantity(token.value, token.unit, numberFormat) : formatSymbol(token);
+
+const formatTokenText = (token: ExpressionToken, numberFormat: NumberFormatSettings) =>
+  token.nameLabel ? `${token.nameLabel} (${formatTokenValue(token, numberFormat)})` : formatTokenValue(token, numberFormat);
+
+const templateSavedMessage = (template: FormulaTemplate) => `テンプレート「${template.name}」を保存しました`;
+
+const panelClassName = (open: boolean, width: string) => `
+    absolute sm:static top-0 right-0 h-full w-full ${width}
+    bg-black/60 sm:bg-black/20 backdrop-blur-xl sm:backdrop-blur-md
+    rounded-[2rem] border border-white/10 p-6 shadow-2xl
+    transition-all duration-300 ease-in-out z-20 overflow-hidden flex flex-col
+    ${open ? 'translate-x-0 opacity-100 sm:ml-4' : 'translate-x-10 opacity-0 pointer-events-none w-0 p-0 border-0'}
+`;
+
+// The components below subscribe to their own part of the view and take stable props only,
+// so typing into the expression re-renders none of them
+
+// Earlier calculations shown above the expression being typed
+const RecentHistory = memo(function RecentHistory({ calculator, numberFormat }: {
+  calculator: CalculatorLogic,
+  numberFormat: NumberFormatSettings
+}) {
+  const { items: history } = useCalculator(calculator, 'history');
+
+  return (
+    <>
+      {history.map((item, idx) => (
+        <div key={idx} className="text-neutral-500 text-sm font-light tracking-wide flex flex-wrap items-end justify-end gap-2 w-full opacity-60 border-b border-white/5 pb-2 mb-2 last:border-0 last:mb-0 last:pb-0">
+          {item.expressionTokens.map((token, i) => (
+            <span key={i} className="flex flex-col items-center justify-end">
+              {token.nameLabel && (
+                <span className={`text-xs leading-none mb-0.5 ${
+                    token.color === 'red' ? 'text-red-400/60' :
+                    token.color === 'yellow' ? 'text-yellow-400/60' :
+                    token.color === 'blue' ? 'text-blue-400/60' :
+                    token.color === 'orange' ? 'text-orange-400/60' :
+                    token.color === 'green' ? 'text-green-400/60' :
+                    token.color === 'white' ? 'text-white/60' :
+                    'text-neutral-300/60'
+                }`}>{token.nameLabel}</span>
+              )}
+              <span className={`${
+                  token.color === 'red' ? 'text-red-400/60' :
+                  token.color === 'yellow' ? 'text-yellow-400/60' :
+                  token.color === 'blue' ? 'text-blue-400/60' :
+                  token.color === 'orange' ? 'text-orange-400/60' :
+                  token.color === 'green' ? 'text-green-400/60' :
+                  token.color === 'white' ? 'text-white/60' :
+                  ''
+              }`}>{formatTokenValue(token, numberFormat)}</span>
+            </span>
+          ))}
+          <span className="text-white/40">= {formatQuantity(item.result, item.unit, numberFormat)}</span>
+        </div>
+      ))}
+    </>
+  );
+});
+
+const HistoryPanel = memo(function HistoryPanel({ calculator, open, numberFormat, onOpenChange, onContextChange, onOperationChange, onMessage }: {
+  calculator: CalculatorLogic,
+  open: boolean,
+  numberFormat: NumberFormatSettings,
+  onOpenChange: (open: boolean) => void,
+  onContextChange: (context: string | null) => void,
+  onOperationChange: (op: Operation | null) => void,
+  onMessage: (message: string) => void
+}) {
+  const { items: history, stale } = useCalculator(calculator, 'history');
+  // History entries picked for export (none picked = export everything)
+  const [selectedHistory, setSelectedHistory] = useState<HistoryItem[]>([]);
+  const exportedHistory = history.filter(item => selectedHistory.includes(item));
+
+  const handleClick = (index: number) => {
+    const item = history[index];
+    calculator.loadFromHistory(index);
+    // Generate string for context - show both name and value
+    onContextChange(item.expressionTokens.map(token => formatTokenText(token, numberFormat)).join(' ') + " =");
+    onOpenChange(false);
+  };
+
+  const handleRecalculate = (index: number) => {
+    onContextChange(null);
+    calculator.recalculateHistoryItem(index);
+    onOperationChange(null);
+  };
+
+  const handleAns = (index: number) => {
+    onContextChange(null);
+    calculator.inputAns(index + 1);
+    onOpenChange(false);
+  };
+
+  const handleSaveTemplate = (index: number) => {
+    const template = calculator.saveTemplate("", index);
+    if (template) onMessage(templateSavedMessage(template));
+  };
+
+  const handleCopy = (index: number) => {
+    navigator.clipboard.writeText(calculator.getHistoryItemText(index))
+      .then(() => onMessage("コピーしました"))
+      .catch(() => onMessage("コピーできませんでした"));
+  };
+
+  const toggleSelection = (item: HistoryItem) => {
+    setSelectedHistory(selected => selected.includes(item) ? selected.filter(s => s !== item) : [...selected, item]);
+  };
+
+  return (
+    <div className={panelClassName(open, "sm:w-64")}>
+      <div className="flex items-center justify-between mb-4 text-white/80 pb-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <History size={18} />
+          <span className="font-medium">History</span>
+        </div>
+        {/* Mobile Close Button */}
+        <button
+          onClick={() => onOpenChange(false)}
+          className="sm:hidden p-1 text-white/50 hover:text-white transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <ExportControls
+        fileName="calculator-history"
+        build={(format) => exportHistory(exportedHistory.length > 0 ? exportedHistory : history, format, numberFormat)}
+        onMessage={onMessage}
+      />
+      {exportedHistory.length > 0 && (
+        <div className="flex items-center justify-between -mt-1 mb-3 text-xs text-white/50">
+          <span>{exportedHistory.length} selected</span>
+          <button onClick={() => setSelectedHistory([])} className="hover:text-white transition-colors">Clear</button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {history.length === 0 ? (
+          <div className="text-white/30 text-center py-8 text-sm">No history yet</div>
+        ) : (
+          history.map((item, i) => (
+            <div key={i} className="relative group/item">
+              <button
+                onClick={() => handleClick(i)}
+                className="flex flex-col items-end w-full p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-right"
+              >
+                <span className="text-neutral-400 text-xs mb-1 group-hover/item:text-neutral-300 transition-colors">
+                  {item.expressionTokens.map(token => formatTokenText(token, numberFormat)).join(' ')} =
+                </span>
+                <span className="text-white font-medium text-lg">{formatQuantity(item.result, item.unit, numberFormat)}</span>
+              </button>
+              <button
+                onClick={() => handleCopy(i)}
+                className="absolute bottom-2 left-2 p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+                title="Copy as text"
+              >
+                <Copy size={14} />
+              </button>
+              <button
+                onClick={() => toggleSelection(item)}
+                className={`absolute bottom-2 left-8 p-1 rounded-full hover:text-white hover:bg-white/10 transition-all ${
+                    selectedHistory.includes(item) ? 'text-white/80' : 'text-white/30 opacity-0 group-hover/item:opacity-100'
+                }`}
+                title="Select for export"
+              >
+                {selectedHistory.includes(item) ? <SquareCheck size={14} /> : <Square size={14} />}
+              </button>
+              <button
+                onClick={() => handleAns(i)}
+                className="absolute bottom-2 left-14 px-1.5 py-0.5 rounded-full text-[10px] text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+                title={`Insert as ${i === 0 ? 'Ans' : `Ans(${i + 1})`}`}
+              >
+                Ans
+              </button>
+              <button
+                onClick={() => handleSaveTemplate(i)}
+                className="absolute bottom-2 left-21 p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+                title="Save as template"
+              >
+                <LayoutTemplate size={14} />
+              </button>
+              {/* Variables used here changed since calculation */}
+              {stale[i] && (
+                <button
+                  onClick={() => handleRecalculate(i)}
+                  className="absolute top-2 left-2 p-1 rounded-full text-yellow-400/80 hover:text-yellow-300 hover:bg-white/10 transition-colors"
+                  title="Recalculate with current values"
+                >
+                  <RefreshCw size={14} />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+const VariablesPanel = memo(function VariablesPanel({ calculator, open, numberFormat, onOpenChange, onEditFormula, onImport, onMessage }: {
+  calculator: CalculatorLogic,
+  open: boolean,
+  numberFormat: NumberFormatSettings,
+  onOpenChange: (open: boolean) => void,
+  onEditFormula: (formula: { id?: string, label: string, formula: string }) => void,
+  onImport: (draft: { fileName: string, parsed: ParsedImport }) => void,
+  onMessage: (message: string) => void
+}) {
+  const variables = useCalculator(calculator, 'variables');
+
+  const handleClick = (variable: SavedVariable) => {
+    calculator.inputVariable(variable);
+    onOpenChange(false);
+  };
+
+  const handleDelete = (variable: SavedVariable) => {
+    try {
+      calculator.deleteVariable(variable.label);
+    } catch (e) {
+      if (!(e instanceof FormulaError)) throw e;
+      onMessage(formulaErrorMessage(e));
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+    file.text()
+      .then(text => onImport({ fileName: file.name, parsed: parseVariableImport(text, file.name) }))
+      .catch(error => onMessage(error instanceof ImportFormatError ? error.message : "ファイルを読み込めませんでした"));
+  };
+
+  return (
+    <div className={panelClassName(open, "sm:w-64")}>
+      <div className="flex items-center justify-between mb-4 text-white/80 pb-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <Bookmark size={18} />
+          <span className="font-medium">Variables</span>
+        </div>
+        {/* Mobile Close Button */}
+        <button
+          onClick={() => onOpenChange(false)}
+          className="sm:hidden p-1 text-white/50 hover:text-white transition-colors"
+          title="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex items-start gap-1">
+        <div className="flex-1">
+          <ExportControls
+            fileName="calculator-variables"
+            build={(format) => exportVariables(variables, format, numberFormat)}
+            onMessage={onMessage}
+          />
+        </div>
+        <label
+          className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors cursor-pointer"
+          title="Import CSV / JSON"
+        >
+          <Upload size={16} />
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImportFile} className="hidden" />
+        </label>
+        <button
+          onClick={() => onEditFormula({ label: "", formula: "" })}
+          className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+          title="New formula variable"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {variables.length === 0 ? (
+          <div className="text-white/30 text-center py-8 text-sm">No variables saved</div>
+        ) : (
+          variables.map((v, i) => (
+            <div key={i} className="relative group/item">
+              <button
+                onClick={() => handleClick(v)}
+                className="flex flex-col items-end w-full p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-right"
+              >
+                <span className="text-neutral-300 text-sm font-medium mb-1 group-hover/item:text-neutral-200 transition-colors">
+                  {v.label}{v.unit ? ` (${v.unit})` : ''}
+                </span>
+                {v.formula && (
+                  <span className="text-neutral-500 text-xs mb-1 break-all">= {getFormulaText(v, variables)}</span>
+                )}
+                <span className="text-white/80 text-lg break-all">
+                  {formatQuantity(v.value, v.unit, numberFormat)}
+                </span>
+              </button>
+              {v.formula && (
+                <button
+                  onClick={() => onEditFormula({ id: v.id, label: v.label, formula: getFormulaText(v, variables) })}
+                  className="absolute bottom-2 left-2 p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+                  title="Edit formula"
+                >
+                  <Pencil size={14} />
+                </button>
+              )}
+              <button
+                onClick={() => handleDelete(v)}
+                className="absolute bottom-2 left-8 p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+// `canSave` = an expression is being typed (passed as a flag so keypresses do not re-render the panel)
+const TemplatesPanel = memo(function TemplatesPanel({ calculator, open, canSave, onOpenChange, onRun, onMessage }: {
+  calculator: CalculatorLogic,
+  open: boolean,
+  canSave: boolean,
+  onOpenChange: (open: boolean) => void,
+  onRun: (run: { template: FormulaTemplate, defaults: string[] }) => void,
+  onMessage: (message: string) => void
+}) {
+  const templates = useCalculator(calculator, 'templates');
+  const [templateName, setTemplateName] = useState("");
+
+  const handleSave = () => {
+    const template = calculator.saveTemplate(templateName);
+    if (!template) return;
+    setTemplateName("");
+    onMessage(templateSavedMessage(template));
+  };
+
+  return (
+    <div className={panelClassName(open, "sm:w-64")}>
+      <div className="flex items-center justify-between mb-4 text-white/80 pb-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <LayoutTemplate size={18} />
+          <span className="font-medium">Templates</span>
+        </div>
+        {/* Mobile Close Button */}
+        <button
+          onClick={() => onOpenChange(false)}
+          className="sm:hidden p-1 text-white/50 hover:text-white transition-colors"
+          title="Close"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Save the expression being typed */}
+      <div className="flex items-center gap-1 mb-3">
+        <input
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") handleSave(); }}
+          placeholder="Template name"
+          className={`flex-1 min-w-0 ${selectClassName}`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+          title="Save current expression"
+        >
+          <Save size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3 pr-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {templates.length === 0 ? (
+          <div className="text-white/30 text-center py-8 text-sm">No templates saved</div>
+        ) : (
+          templates.map(template => (
+            <div key={template.id} className="relative group/item">
+              <button
+                onClick={() => onRun({ template, defaults: calculator.getTemplateDefaults(template.id) })}
+                className="flex flex-col items-end w-full p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-right"
+              >
+                <span className="text-neutral-300 text-sm font-medium mb-1 break-all">{template.name}</span>
+                <span className="text-neutral-500 text-xs break-all">{describeTemplateTokens(template.tokens)}</span>
+              </button>
+              <span className="absolute bottom-2 left-2 p-1 text-white/30 opacity-0 group-hover/item:opacity-100 transition-all pointer-events-none">
+                <Play size={14} />
+              </span>
+              <button
+                onClick={() => calculator.deleteTemplate(template.id)}
+                className="absolute bottom-2 left-8 p-1 rounded-full text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover/item:opacity-100 transition-all"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+const SheetPanel = memo(function SheetPanel({ calculator, open, numberFormat, onOpenChange }: {
+  calculator: CalculatorLogic,
+  open: boolean,
+  numberFormat: NumberFormatSettings,
+  onOpenChange: (open: boolean) => void
+}) {
+  const sheet = useCalculator(calculator, 'sheet');
+
+  return (
+    <div className={panelClassName(open, "sm:w-80")}>
+      <div className="flex items-center justify-between mb-4 text-white/80 pb-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet size={18} />
+          <span className="font-medium">Sheet</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => calculator.clearSheet()}
+            disabled={sheet.lines.length === 0}
+            className="p-1 text-white/50 hover:text-white transition-colors disabled:opacity-30"
+            title="Clear sheet"
+          >
+            <Trash2 size={16} />
+          </button>
+          {/* Mobile Close Button */}
+          <button
+            onClick={() => onOpenChange(false)}
+            className="sm:hidden p-1 text-white/50 hover:text-white transition-colors"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2 pr-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {sheet.lines.length === 0 && (
+          <div className="text-white/30 text-center py-8 text-sm">Lines can use earlier lines by label or #number</div>
+        )}
+        {sheet.lines.map(line => (
+          <SheetLineRow
+            // Remount when the line changes from outside (undo), dropping the local draft
+            key={`${line.id}:${line.label}:${line.text}`}
+            line={line}
+            numberFormat={numberFormat}
+            onChange={(changes) => calculator.updateSheetLine(line.id, changes)}
+            onRemove={() => calculator.removeSheetLine(line.id)}
+          />
+        ))}
+        <button
+          onClick={() => calculator.addSheetLine()}
+          className="flex items-center justify-center gap-1 w-full py-2 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors text-sm"
+        >
+          <Plus size={14} /> Add line
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between pt-3 mt-3 border-t border-white/10">
+        <span className="text-white/50 text-sm">Total</span>
+        <span className="text-white font-medium text-lg break-all">
+          {sheet.total ? formatQuantity(sheet.total.value, sheet.total.unit, numberFormat) : <span className="text-red-400 text-sm">{ERROR_MESSAGES.unitMismatch}</span>}
+        </span>
+      </div>
+    </div>
+  );
+});
+
 export default function Calculator() {
-  const  calculator = useRef(new CalculatorLogic()).current;
-  const [display, setDisplay] = useState("0");
-  const [displayUnit, setDisplayUnit] = useState<string | null>(null);
-  const [expressionTokens, setExpressionTokens] = useState<ExpressionToken[]>([]);
+  // Created once; a ref would be read during render, where the panels receive it
+  const [calculator] = useState(() => new CalculatorLogic());
+  // Re-renders when these parts change; no manual syncing after each call. History, sheet and
+  // templates are read by the panel components, so changes there do not re-render the keypad
+  const expressionTokens = useCalculator(calculator, 'expression');
+  const displayState = useCalculator(calculator, 'display');
+  const variables = useCalculator(calculator, 'variables');
+  const memory = useCalculator(calculator, 'memory');
+  const { value: display, unit: displayUnit, error, canUndo, canRedo } = displayState;
+  const numberFormat = displayState.settings.format;
   const [activeOp, setActiveOp] = useState<Operation | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
   const [showHistory, setShowHistory] = useState(false);
-  const [variables, setVariables] = useState<SavedVariable[]>([]);
   const [showVariables, setShowVariables] = useState(false);
+  const [showSheet, setShowSheet] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // Template whose parameters are being prompted for (null = dialog closed)
+  const [runningTemplate, setRunningTemplate] = useState<{ template: FormulaTemplate, defaults: string[] } | null>(null);
+  const [showScientific, setShowScientific] = useState(false);
+  // Variable file waiting for confirmation in the import preview
+  const [importDraft, setImportDraft] = useState<{ fileName: string, parsed: ParsedImport } | null>(null);
+  // Memory register the M keys act on
+  const [memorySlot, setMemorySlot] = useState(DEFAULT_MEMORY_REGISTER);
+  const memorySlots = Array.from(new Set([DEFAULT_MEMORY_REGISTER, ...memory.map(m => m.name), memorySlot]));
+  // Settings being edited (null = dialog closed)
+  const [editingSettings, setEditingSettings] = useState<CalculatorSettings | null>(null);
+  // Formula variable being edited (id = undefined for a new one; null = dialog closed)
+  const [editingFormula, setEditingFormula] = useState<{ id?: string, label: string, formula: string } | null>(null);
   
   // To simulate "loading" a history context briefly or just show recent
   const [tempContext, setTempContext] = useState<string | null>(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
 
-  const updateState = () => {
-    setDisplay(calculator.getDisplayValue());
-    setDisplayUnit(calculator.getCurrentUnit());
-    setExpressionTokens(calculator.getExpressionTokens());
-    setHistory([...calculator.getHistory()]);
-    setVariables([...calculator.getVariables()]);
-  };
+  // Restore persisted history/variables once on mount; an unmount before the load finishes cancels it
+  useEffect(() => {
+    const controller = new AbortController();
+    calculator.attachStore(new CalculatorStore(createBrowserStorageAdapter()), controller.signal)
+      .catch(e => console.warn('Failed to restore calculator state', e));
+    return () => controller.abort();
+  }, [calculator]);
 
   const handleDigit = (digit: string) => {
     setTempContext(null);
     calculator.inputDigit(digit);
-    updateState();
   };
 
   const handleOp = (op: Operation) => {
     setTempContext(null);
     calculator.setOperation(op);
-    updateState();
     setActiveOp(op);
   };
 
   const handleEqual = () => {
     setTempContext(null);
     calculator.calculate();
-    updateState();
     setActiveOp(null);
   };
 
   const handleClear = () => {
     setTempContext(null);
     calculator.clear();
-    updateState();
+    setActiveOp(null);
+  };
+
+  const handleUndo = () => {
+    setTempContext(null);
+    if (!calculator.undo()) return;
+    setActiveOp(null);
+  };
+
+  const handleRedo = () => {
+    setTempContext(null);
+    if (!calculator.redo()) return;
     setActiveOp(null);
   };
 
   const handleDelete = () => {
     setTempContext(null);
     calculator.delete();
-    updateState();
   };
 
   const handlePercent = () => {
+    setTempContext(null);
     calculator.percentage();
-    updateState();
+  };
+
+  const handleMemory = (action: "add" | "subtract" | "recall" | "clear") => {
+    setTempContext(null);
+    if (action === "add") calculator.memoryAdd(memorySlot);
+    if (action === "subtract") calculator.memorySubtract(memorySlot);
+    if (action === "recall") calculator.memoryRecall(memorySlot);
+    if (action === "clear") calculator.memoryClear(memorySlot);
+    setActiveOp(null);
+  };
+
+  // New slots are named M2, M3, ...; they appear in the engine on first M+ / M−
+  const handleNewMemorySlot = () => {
+    let n = 2;
+    while (memorySlots.includes(`M${n}`)) n++;
+    setMemorySlot(`M${n}`);
+  };
+
+  const handleAns = (n: number = 1) => {
+    setTempContext(null);
+    calculator.inputAns(n);
+  };
+
+  const handleTax = (op: TaxOperator) => {
+    setTempContext(null);
+    calculator.inputTax(op);
+  };
+
+  // Switches between the standard and the reduced consumption tax rate
+  const handleTaxRateToggle = () => {
+    const next = TAX_RATES[(TAX_RATES.indexOf(displayState.settings.tax.rate) + 1) % TAX_RATES.length];
+    calculator.setTaxSettings({ rate: next });
   };
   
   const handleToggleSign = () => {
       calculator.toggleSign();
-      updateState();
   };
 
   const handleParenthesis = (type: '(' | ')') => {
       setTempContext(null);
       calculator.inputParenthesis(type);
-      updateState();
+  };
+
+  const handleFunction = (fn: MathFunction) => {
+      setTempContext(null);
+      calculator.inputFunction(fn);
+  };
+
+  const handleConstant = (constant: MathConstant) => {
+      setTempContext(null);
+      calculator.inputConstant(constant);
   };
 
   // Renaming state
-  const [editingToken, setEditingToken] = useState<{ token: ExpressionToken, label: string, unit: string, color: VariableColor | null } | null>(null);
+  // `inExpression` = opened from an expression chip (can be deleted / have tokens inserted around it)
+  // Operand being solved for (null = goal seek dialog closed)
+  const [solvingToken, setSolvingToken] = useState<ExpressionToken | null>(null);
+  const [editingToken, setEditingToken] = useState<{ token: ExpressionToken, value: string, label: string, unit: string, color: VariableColor | null, inExpression: boolean } | null>(null);
   
-  const COMMON_UNITS = ["円", "個", "枚", "本", "m", "kg", "g", "L", "%"];
+  const COMMON_UNITS = ["円", "個", "枚", "本", "m", "kg", "g", "L"];
 
-  const handleHistoryClick = (index: number) => {
-      const item = history[index];
-      calculator.loadFromHistory(index);
-      
-      // Generate string for context - show both name and value
-      const exprStr = item.expressionTokens.map(t => {
-          if (t.type === 'operator') return t.value;
-          // Show both name and value if name exists
-          if (t.nameLabel && t.numberLabel) {
-              return `${t.nameLabel} (${t.numberLabel})`;
-          }
-          return t.numberLabel || t.value;
-      }).join(' ') + " =";
-      setTempContext(exprStr);
-      
-      updateState();
-      setShowHistory(false);
-  };
+  // Stable, so the memoized panels can take it as a prop
+  const showToast = useCallback((message: string) => {
+      setToastMessage(message);
+      setTimeout(() => setToastMessage(null), 2000);
+  }, []);
 
   const handleTokenClick = (token: ExpressionToken) => {
       if (token.type !== 'operand' || !token.id) return;
       setEditingToken({ 
           token, 
+          value: token.value,
           label: token.label || "",
           unit: token.unit || "",
-          color: token.color || null
+          color: token.color || null,
+          inExpression: true
       });
   };
 
@@ -121,51 +1300,149 @@ export default function Calculator() {
       }
       
       // Create a token for the current value to enable editing
+      // A calculated result offers its derived name (単価×数量) as the default label
       const currentToken: ExpressionToken = {
           type: 'operand',
           value: calculator.getCurrentValue(),
-          label: undefined,
+          label: calculator.getCurrentLabel() || undefined,
           unit: calculator.getCurrentUnit() || undefined,
           id: 'current'
       };
       setEditingToken({
           token: currentToken,
-          label: "",
+          value: currentToken.value,
+          label: currentToken.label ?? "",
           unit: calculator.getCurrentUnit() || "",
-          color: null
+          color: null,
+          inExpression: false
       });
   };
 
   const saveLabel = () => {
-      if (!editingToken) return;
-      const target = editingToken.token.id === 'current' ? 'current' : 'previous';
-      calculator.setLabel(target, editingToken.label, editingToken.color);
-      calculator.setUnit(target, editingToken.unit || null);
-      updateState();
+      if (!editingToken || !editingToken.token.id) return;
+      calculator.updateToken(editingToken.token.id, {
+          value: editingToken.value.replace(/,/g, ''),
+          label: editingToken.label,
+          unit: editingToken.unit,
+          color: editingToken.color || undefined
+      });
       setEditingToken(null);
   };
 
+  const deleteEditingToken = () => {
+      if (!editingToken || !editingToken.token.id) return;
+      calculator.deleteToken(editingToken.token.id);
+      setEditingToken(null);
+  };
+
+  const insertNextToEditingToken = (position: 'before' | 'after') => {
+      if (!editingToken || !editingToken.token.id) return;
+      const newId = calculator.insertOperand(editingToken.token.id, position, { value: "0" });
+      // Open the new operand right away so its value can be entered
+      const inserted = calculator.getExpressionTokens().find(t => t.id === newId);
+      if (inserted) {
+          handleTokenClick(inserted);
+      } else {
+          setEditingToken(null);
+      }
+  };
+
   const saveToVariables = () => {
       if (!editingToken || !editingToken.label) return; // Label is required for saving? Or maybe just value? Usually label.
       
       // Save
-      calculator.saveVariable(editingToken.label, editingToken.token.value, editingToken.unit, editingToken.color || undefined);
+      const value = editingToken.value.replace(/,/g, '');
+      const saved = calculator.saveVariable(editingToken.label, value, editingToken.unit, editingToken.color || undefined, editingToken.token.variableId);
       
-      // Apply
-      const target = editingToken.token.id === 'current' ? 'current' : 'previous';
-      calculator.setLabel(target, editingToken.label, editingToken.color);
-      calculator.setUnit(target, editingToken.unit || null);
-      
-      updateState();
+      // Apply (and link the operand to the saved variable)
+      if (editingToken.token.id) {
+          calculator.updateToken(editingToken.token.id, {
+              value,
+              label: editingToken.label,
+              unit: editingToken.unit,
+              color: editingToken.color || undefined,
+              variableId: saved.id
+          });
+      }
       setEditingToken(null);
   };
   
-  const handleVariableClick = (variable: SavedVariable) => {
-      calculator.inputVariable(variable);
-      updateState();
-      setShowVariables(false);
+  const handleSaveFormula = (label: string, formula: string): string | null => {
+      if (!editingFormula) return null;
+      const color = editingFormula.id ? calculator.getVariable(editingFormula.id)?.color : undefined;
+      try {
+          calculator.saveFormulaVariable(label, formula, color, editingFormula.id);
+      } catch (e) {
+          return formulaErrorMessage(e);
+      }
+      setEditingFormula(null);
+      return null;
+  };
+
+  const handleGoalSeek = (target: string): GoalSeekResult | null => {
+      if (!solvingToken?.id) return null;
+      let result: GoalSeekResult;
+      try {
+          result = calculator.goalSeek(solvingToken.id, target);
+      } catch {
+          return null;
+      }
+      if (result.kind === "solved") {
+          setSolvingToken(null);
+          showToast(`${solvingToken.label || "値"} = ${formatQuantity(result.value, solvingToken.unit, numberFormat)}`);
+      }
+      return result;
+  };
+
+  const handleRunTemplate = (values: string[]): string | null => {
+      if (!runningTemplate) return null;
+      try {
+          calculator.runTemplate(runningTemplate.template.id, values);
+      } catch (e) {
+          return e instanceof CalculationError ? ERROR_MESSAGES[e.kind] : "計算できませんでした";
+      }
+      setTempContext(null);
+      setActiveOp(null);
+      setRunningTemplate(null);
+      setShowTemplates(false);
+      return null;
   };
 
+  const confirmImport = (plan: ImportPlanEntry[]) => {
+      const count = calculator.importVariables(plan);
+      setImportDraft(null);
+      showToast(`${count}件の変数を読み込みました`);
+  };
+
+  // Clipboard support: paste an expression as text, copy the current expression as text
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (editingToken || importDraft || editingSettings || editingFormula || runningTemplate || solvingToken || isTextInput(e.target)) return;
+      const text = e.clipboardData?.getData("text/plain");
+      if (!text) return;
+      e.preventDefault();
+      try {
+        setTempContext(null);
+        calculator.pasteExpression(text);
+        setActiveOp(null);
+      } catch {
+        showToast("式を読み取れませんでした");
+      }
+    };
+    const handleCopy = (e: ClipboardEvent) => {
+      if (editingToken || importDraft || editingSettings || editingFormula || runningTemplate || solvingToken || isTextInput(e.target) || window.getSelection()?.toString()) return;
+      e.preventDefault();
+      e.clipboardData?.setData("text/plain", calculator.getExpressionText());
+      showToast("コピーしました");
+    };
+    window.addEventListener("paste", handlePaste);
+    window.addEventListener("copy", handleCopy);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+      window.removeEventListener("copy", handleCopy);
+    };
+  }, [calculator, showToast, editingToken, importDraft, editingSettings, editingFormula, runningTemplate, solvingToken]);
+
   // Keyboard support for modal
   useEffect(() => {
     if (!editingToken) return;
@@ -181,17 +1458,32 @@ export default function Calculator() {
   // Keyboard support (Main)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (editingToken) return;
+      if (editingToken || importDraft || editingSettings || editingFormula || runningTemplate || solvingToken || isTextInput(e.target)) return;
       
       const key = e.key;
+      // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+      if ((e.ctrlKey || e.metaKey) && key.toLowerCase() === "z") {
+          e.preventDefault();
+          if (e.shiftKey) handleRedo();
+          else handleUndo();
+          return;
+      }
       // ... existing logic
       if (/[0-9]/.test(key)) handleDigit(key);
       if (key === ".") handleDigit(".");
-      if (key === "+" || key === "-" || key === "*" || key === "/") {
+      if (key === "+" || key === "-" || key === "*" || key === "/" || key === "^") {
           const mappedOp = key === "*" ? "×" : key === "/" ? "÷" : key as Operation;
           handleOp(mappedOp);
       }
+      // Scientific shortcuts (letters only without modifiers, so Ctrl+C/V keep working)
+      if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+          const functionKeys: Record<string, MathFunction> = { s: "sin", c: "cos", t: "tan", l: "log", n: "ln", a: "abs", r: "√" };
+          if (functionKeys[key]) handleFunction(functionKeys[key]);
+          if (key === "p") handleConstant("π");
+          if (key === "e") handleConstant("e");
+      }
       if (key === "(" || key === ")") handleParenthesis(key);
+      if (key === "%") handlePercent();
       if (key === "Enter" || key === "=") {
           e.preventDefault();
           handleEqual();
@@ -202,43 +1494,7 @@ export default function Calculator() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [editingToken]);
-
-  const Button = ({ 
-    label, 
-    onClick, 
-    className = "", 
-    variant = "default",
-    icon
-  }: { 
-    label?: string, 
-    onClick: () => void, 
-    className?: string,
-    variant?: "default" | "primary" | "secondary",
-    icon?: React.ReactNode
-  }) => {
-    // Tiled layout styles: rectangular, no gaps (handled by grid container), no roundness
-    const baseStyles = "h-16 sm:h-24 w-full text-2xl font-medium transition-colors duration-200 active:bg-white/20 flex items-center justify-center select-none rounded-none";
-    let variantStyles = "bg-white/5 hover:bg-white/10 text-white"; 
-    
-    if (variant === "primary") {
-      variantStyles = "bg-orange-500 hover:bg-orange-400 text-white";
-      if (activeOp === label) {
-          variantStyles = "bg-white text-orange-600";
-      }
-    } else if (variant === "secondary") {
-      variantStyles = "bg-white/10 hover:bg-white/15 text-gray-200";
-    }
-
-    return (
-      <button 
-        onClick={onClick}
-        className={`${baseStyles} ${variantStyles} ${className}`}
-      >
-        {icon ? icon : label}
-      </button>
-    );
-  };
+  }, [editingToken, importDraft, editingSettings, editingFormula, runningTemplate, solvingToken]);
 
   return (
     <div className="relative group flex gap-4 h-full w-full justify-center">
@@ -256,11 +1512,76 @@ export default function Calculator() {
           </div>
         )}
         
+        {/* Settings */}
+        {solvingToken && (
+            <GoalSeekDialog
+                label={solvingToken.label || formatTokenValue(solvingToken, numberFormat)}
+                unit={displayState.preview?.unit ?? null}
+                numberFormat={numberFormat}
+                onCancel={() => setSolvingToken(null)}
+                onSolve={handleGoalSeek}
+                onPick={(value) => {
+                    if (solvingToken.id) calculator.updateToken(solvingToken.id, { value });
+                    setSolvingToken(null);
+                }}
+            />
+        )}
+
+        {runningTemplate && (
+            <TemplateDialog
+                template={runningTemplate.template}
+                defaults={runningTemplate.defaults}
+                onCancel={() => setRunningTemplate(null)}
+                onRun={handleRunTemplate}
+            />
+        )}
+
+        {editingFormula && (
+            <FormulaDialog
+                initial={editingFormula}
+                variables={variables}
+                onCancel={() => setEditingFormula(null)}
+                onSave={handleSaveFormula}
+            />
+        )}
+
+        {editingSettings && (
+            <SettingsDialog
+                initial={editingSettings}
+                onCancel={() => setEditingSettings(null)}
+                onSave={(settings) => {
+                    calculator.setSettings(settings);
+                    setEditingSettings(null);
+                }}
+            />
+        )}
+
+        {/* Variable Import Preview */}
+        {importDraft && (
+            <ImportPreview
+                fileName={importDraft.fileName}
+                parsed={importDraft.parsed}
+                variables={variables}
+                onCancel={() => setImportDraft(null)}
+                onConfirm={confirmImport}
+            />
+        )}
+
         {/* Naming Modal Overlay */}
         {editingToken && (
             <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex flex-col items-center justify-center p-6 animate-fade-in">
                 <h3 className="text-white text-lg font-medium mb-4">Set Variable Details</h3>
                 
+                {/* Value Input */}
+                <input 
+                    type="text" 
+                    inputMode="decimal"
+                    value={editingToken.value}
+                    onChange={(e) => setEditingToken({ ...editingToken, value: e.target.value })}
+                    placeholder="Value..."
+                    className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-white text-right text-lg outline-none focus:border-neutral-500 mb-3"
+                />
+
                 {/* Name Input */}
                 <input 
                     autoFocus
@@ -320,6 +1641,41 @@ export default function Calculator() {
                     />
                 </div>
 
+                {/* Structural edits (only for chips in the expression) */}
+                {editingToken.inExpression && (
+                    <div className="flex gap-2 w-full mb-3">
+                        <button 
+                            onClick={() => insertNextToEditingToken('before')}
+                            className="flex-1 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/80 text-sm transition-colors"
+                        >
+                            Insert Before
+                        </button>
+                        <button 
+                            onClick={() => insertNextToEditingToken('after')}
+                            className="flex-1 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/80 text-sm transition-colors"
+                        >
+                            Insert After
+                        </button>
+                        <button 
+                            onClick={() => {
+                                setSolvingToken(editingToken.token);
+                                setEditingToken(null);
+                            }}
+                            className="px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/80 transition-colors"
+                            title="Solve for this value"
+                        >
+                            <Target size={16} />
+                        </button>
+                        <button 
+                            onClick={deleteEditingToken}
+                            className="px-3 py-2 bg-red-500/20 hover:bg-red-500/30 rounded-lg text-red-300 transition-colors"
+                            title="Delete"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                )}
+
                 <div className="flex gap-3 w-full">
                     <button 
                         onClick={() => setEditingToken(null)}
@@ -348,19 +1704,63 @@ export default function Calculator() {
         {/* Toggle Buttons (History & Variables) */}
         <div className="absolute top-4 left-4 z-20 flex gap-2">
              <button 
-                onClick={() => { setShowHistory(!showHistory); setShowVariables(false); }}
+                onClick={() => { setShowHistory(!showHistory); setShowVariables(false); setShowSheet(false); setShowTemplates(false); }}
                 className={`p-2 rounded-full transition-colors ${showHistory ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
                 title="History"
              >
                  <History size={20} />
              </button>
              <button 
-                onClick={() => { setShowVariables(!showVariables); setShowHistory(false); }}
+                onClick={() => { setShowVariables(!showVariables); setShowHistory(false); setShowSheet(false); setShowTemplates(false); }}
                 className={`p-2 rounded-full transition-colors ${showVariables ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
                 title="Variables"
              >
                  <Bookmark size={20} />
              </button>
+             <button 
+                onClick={() => { setShowSheet(!showSheet); setShowHistory(false); setShowVariables(false); setShowTemplates(false); }}
+                className={`p-2 rounded-full transition-colors ${showSheet ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                title="Sheet"
+             >
+                 <FileSpreadsheet size={20} />
+             </button>
+             <button 
+                onClick={() => { setShowTemplates(!showTemplates); setShowHistory(false); setShowVariables(false); setShowSheet(false); }}
+                className={`p-2 rounded-full transition-colors ${showTemplates ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                title="Templates"
+             >
+                 <LayoutTemplate size={20} />
+             </button>
+             <button 
+                onClick={() => setShowScientific(!showScientific)}
+                className={`p-2 rounded-full transition-colors ${showScientific ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                title="Scientific"
+             >
+                 <SquareFunction size={20} />
+             </button>
+             <button 
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="p-2 rounded-full transition-colors text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-white/50"
+                title="Undo (Ctrl+Z)"
+             >
+                 <Undo2 size={20} />
+             </button>
+             <button 
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="p-2 rounded-full transition-colors text-white/50 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-white/50"
+                title="Redo (Ctrl+Shift+Z)"
+             >
+                 <Redo2 size={20} />
+             </button>
+             <button 
+                onClick={() => setEditingSettings(calculator.getSettings())}
+                className="p-2 rounded-full transition-colors text-white/50 hover:text-white hover:bg-white/10"
+                title="Settings"
+             >
+                 <Settings2 size={20} />
+             </button>
         </div>
 
         {/* Display Area */}
@@ -376,9 +1776,14 @@ export default function Calculator() {
                        <span 
                            key={i} 
                            onClick={() => handleTokenClick(token)}
-                           className={`visited: transition-colors cursor-pointer select-none flex flex-col items-center justify-end group/token ${token.type === 'operand' ? 'hover:text-white' : ''}`}
+                           className={`visited: transition-colors cursor-pointer select-none flex flex-col items-center justify-end group/token ${token.type === 'operand' ? 'hover:text-white' : ''} ${token.ghost ? 'opacity-30' : ''}`}
                            title={token.type === 'operand' ? "Click to name" : ""}
                        >
+                           {/* Group subtotal above the closing parenthesis */}
+                           {token.subtotal && (
+                               <span className="text-[10px] leading-none mb-0.5 text-white/40 whitespace-nowrap">{token.subtotal}</span>
+                           )}
+
                            {/* Token Label (Sub-monitor Top) */}
                            {token.nameLabel && (
                                <span className={`text-xs leading-none mb-0.5 font-medium ${
@@ -394,6 +1799,7 @@ export default function Calculator() {
 
                            {/* Token Value/Number Label (Sub-monitor Bottom) */}
                            <span className={`${token.type === 'operand' ? 'border-b border-transparent group-hover/token:border-white/20' : ''} ${
+                               token.hasError ? 'text-red-500 border-b-2 !border-red-500' :
                                token.color === 'red' ? 'text-red-400' :
                                token.color === 'yellow' ? 'text-yellow-400' :
                                token.color === 'blue' ? 'text-blue-400' :
@@ -402,7 +1808,7 @@ export default function Calculator() {
                                token.color === 'white' ? 'text-white' :
                                ''
                            }`}>
-                                {token.numberLabel || token.value}
+                                {token.numberLabel || formatSymbol(token)}
                            </span>
                        </span>
                    ))
@@ -410,43 +1816,22 @@ export default function Calculator() {
               </div>
               
               {/* History Items */}
-              {history.map((item, idx) => (
-                <div key={idx} className="text-neutral-500 text-sm font-light tracking-wide flex flex-wrap items-end justify-end gap-2 w-full opacity-60 border-b border-white/5 pb-2 mb-2 last:border-0 last:mb-0 last:pb-0">
-                  {item.expressionTokens.map((token, i) => (
-                    <span key={i} className="flex flex-col items-center justify-end">
-                      {token.nameLabel && (
-                        <span className={`text-xs leading-none mb-0.5 ${
-                            token.color === 'red' ? 'text-red-400/60' :
-                            token.color === 'yellow' ? 'text-yellow-400/60' :
-                            token.color === 'blue' ? 'text-blue-400/60' :
-                            token.color === 'orange' ? 'text-orange-400/60' :
-                            token.color === 'green' ? 'text-green-400/60' :
-                            token.color === 'white' ? 'text-white/60' :
-                            'text-neutral-300/60'
-                        }`}>{token.nameLabel}</span>
-                      )}
-                      <span className={`${
-                          token.color === 'red' ? 'text-red-400/60' :
-                          token.color === 'yellow' ? 'text-yellow-400/60' :
-                          token.color === 'blue' ? 'text-blue-400/60' :
-                          token.color === 'orange' ? 'text-orange-400/60' :
-                          token.color === 'green' ? 'text-green-400/60' :
-                          token.color === 'white' ? 'text-white/60' :
-                          ''
-                      }`}>{token.numberLabel || token.value}</span>
-                    </span>
-                  ))}
-                  <span className="text-white/40">= {item.result}</span>
-                </div>
-              ))}
+              <RecentHistory calculator={calculator} numberFormat={numberFormat} />
            </div>
            
            {/* Main Display (Fixed at bottom) */}
            <div className="w-full text-right pt-2 border-t border-white/5">
+               {/* Error message; the offending token is highlighted in the expression above */}
+               {error && (
+                   <div className="text-red-400 text-sm mb-1 animate-fade-in">{ERROR_MESSAGES[error.kind]}</div>
+               )}
+               {displayState.label && !error && (
+                   <div className="text-neutral-400 text-sm mb-1 break-all">{displayState.label}</div>
+               )}
                <span 
                    onClick={handleMainDisplayClick}
                    className={`text-4xl sm:text-5xl font-light tracking-tight drop-shadow-md animate-fade-in-up break-all line-clamp-2 leading-tight transition-colors ${
-                       calculator.isIntermediate() 
+                       displayState.isIntermediate 
                            ? 'text-neutral-400 cursor-default' 
                            : 'text-white cursor-pointer hover:text-white/80'
                    }`}
@@ -454,31 +1839,94 @@ export default function Calculator() {
                  {display}
                  {displayUnit && <span className="text-2xl text-white/50 font-normal ml-2">{displayUnit}</span>}
                </span>
+               {/* Running result of the expression typed so far */}
+               {displayState.preview && (
+                   <div className="text-neutral-400 text-lg font-light mt-1">
+                       = {formatQuantity(displayState.preview.value, displayState.preview.unit, numberFormat)}
+                   </div>
+               )}
            </div>
         </div>
 
+        {/* Scientific Keypad */}
+        {showScientific && (
+          <div className="grid grid-cols-4 gap-[1px] bg-white/5 p-[1px] pb-0 [&>button]:h-12 [&>button]:sm:h-14 [&>button]:text-lg">
+            <Button label="sin" onClick={() => handleFunction("sin")} variant="secondary" />
+            <Button label="cos" onClick={() => handleFunction("cos")} variant="secondary" />
+            <Button label="tan" onClick={() => handleFunction("tan")} variant="secondary" />
+            <Button label="^" onClick={() => handleOp("^")} variant="secondary" />
+
+            <Button label="log" onClick={() => handleFunction("log")} variant="secondary" />
+            <Button label="ln" onClick={() => handleFunction("ln")} variant="secondary" />
+            <Button label="√" onClick={() => handleFunction("√")} variant="secondary" />
+            <Button label="ⁿ√" onClick={() => handleOp("ⁿ√")} variant="secondary" />
+
+            <Button label="abs" onClick={() => handleFunction("abs")} variant="secondary" />
+            <Button label="round" onClick={() => handleFunction("round")} variant="secondary" />
+            <Button label="π" onClick={() => handleConstant("π")} variant="secondary" />
+            <Button label="e" onClick={() => handleConstant("e")} variant="secondary" />
+          </div>
+        )}
+
+        {/* Memory Registers */}
+        <div className="flex items-center gap-1 px-3 py-1.5 overflow-x-auto text-xs border-t border-white/5">
+          {memorySlots.map(name => {
+            const register = memory.find(m => m.name === name);
+            return (
+              <button
+                key={name}
+                onClick={() => setMemorySlot(name)}
+                className={`px-2 py-0.5 rounded-full whitespace-nowrap transition-colors ${
+                    name === memorySlot ? 'bg-white/20 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                {name}{register ? ` ${formatQuantity(register.value, register.unit, numberFormat)}` : ''}
+              </button>
+            );
+          })}
+          <button
+            onClick={handleNewMemorySlot}
+            className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+            title="New memory slot"
+          >
+            <Plus size={12} />
+          </button>
+        </div>
+        <div className="grid grid-cols-5 gap-[1px] bg-white/5 p-[1px] pb-0 [&>button]:h-12 [&>button]:sm:h-14 [&>button]:text-lg">
+          <Button label="MC" onClick={() => handleMemory("clear")} variant="secondary" />
+          <Button label="MR" onClick={() => handleMemory("recall")} variant="secondary" />
+          <Button label="M−" onClick={() => handleMemory("subtract")} variant="secondary" />
+          <Button label="M+" onClick={() => handleMemory("add")} variant="secondary" />
+          <Button label="Ans" onClick={() => handleAns()} variant="secondary" />
+        </div>
+
         {/* Keypad */}
         {/* Keypad - Tiled Layout */}
         <div className="grid grid-cols-4 gap-[1px] bg-white/5 p-[1px]">
+          <Button label="%" onClick={handlePercent} variant="secondary" />
+          <Button label="税抜" onClick={() => handleTax("税抜")} variant="secondary" />
+          <Button label="税込" onClick={() => handleTax("税込")} variant="secondary" />
+          <Button label={`税${displayState.settings.tax.rate}%`} onClick={handleTaxRateToggle} variant="secondary" />
+
           <Button label="AC" onClick={handleClear} variant="secondary" />
           <Button label="(" onClick={() => handleParenthesis('(')} variant="secondary" />
           <Button label=")" onClick={() => handleParenthesis(')')} variant="secondary" />
-          <Button label="÷" onClick={() => handleOp("÷")} variant="primary" />
+          <Button label="÷" onClick={() => handleOp("÷")} variant="primary" active={activeOp === "÷"} />
 
           <Button label="7" onClick={() => handleDigit("7")} />
           <Button label="8" onClick={() => handleDigit("8")} />
           <Button label="9" onClick={() => handleDigit("9")} />
-          <Button label="×" onClick={() => handleOp("×")} variant="primary" />
+          <Button label="×" onClick={() => handleOp("×")} variant="primary" active={activeOp === "×"} />
 
           <Button label="4" onClick={() => handleDigit("4")} />
           <Button label="5" onClick={() => handleDigit("5")} />
           <Button label="6" onClick={() => handleDigit("6")} />
-          <Button label="-" onClick={() => handleOp("-")} variant="primary" />
+          <Button label="-" onClick={() => handleOp("-")} variant="primary" active={activeOp === "-"} />
 
           <Button label="1" onClick={() => handleDigit("1")} />
           <Button label="2" onClick={() => handleDigit("2")} />
           <Button label="3" onClick={() => handleDigit("3")} />
-          <Button label="+" onClick={() => handleOp("+")} variant="primary" />
+          <Button label="+" onClick={() => handleOp("+")} variant="primary" active={activeOp === "+"} />
 
           <Button label="0" onClick={() => handleDigit("0")} />
           <Button label="." onClick={() => handleDigit(".")} />
@@ -489,98 +1937,38 @@ export default function Calculator() {
 
 
 
-      {/* History Panel */}
-      <div className={`
-          absolute sm:static top-0 right-0 h-full w-full sm:w-64 
-          bg-black/60 sm:bg-black/20 backdrop-blur-xl sm:backdrop-blur-md 
-          rounded-[2rem] border border-white/10 p-6 shadow-2xl 
-          transition-all duration-300 ease-in-out z-20 overflow-hidden flex flex-col
-          ${showHistory ? 'translate-x-0 opacity-100 sm:ml-4' : 'translate-x-10 opacity-0 pointer-events-none w-0 p-0 border-0'}
-      `}>
-           <div className="flex items-center justify-between mb-4 text-white/80 pb-3 border-b border-white/10">
-              <div className="flex items-center gap-2">
-                <History size={18} />
-                <span className="font-medium">History</span>
-              </div>
-              {/* Mobile Close Button */}
-              <button 
-                onClick={() => setShowHistory(false)}
-                className="sm:hidden p-1 text-white/50 hover:text-white transition-colors"
-              >
-                  <X size={20} />
-              </button>
-           </div>
-          
-          <div className="flex-1 overflow-y-auto space-y-3 pr-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
-              {history.length === 0 ? (
-                  <div className="text-white/30 text-center py-8 text-sm">No history yet</div>
-              ) : (
-                  history.map((item, i) => (
-                      <button 
-                        key={i} 
-                        onClick={() => handleHistoryClick(i)}
-                        className="flex flex-col items-end w-full p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-right group/item"
-                      >
-                          <span className="text-neutral-400 text-xs mb-1 group-hover/item:text-neutral-300 transition-colors">
-                            {item.expressionTokens.map(t => {
-                                if (t.nameLabel && t.numberLabel) {
-                                    return `${t.nameLabel} (${t.numberLabel})`;
-                                }
-                                return t.nameLabel || t.numberLabel || t.value;
-                            }).join(' ')} =
-                          </span>
-                          <span className="text-white font-medium text-lg">{item.result}</span>
-                      </button>
-                  ))
-              )}
-          </div>
-      </div>
-
-      {/* Variables Panel */}
-      <div className={`
-          absolute sm:static top-0 right-0 h-full w-full sm:w-64 
-          bg-black/60 sm:bg-black/20 backdrop-blur-xl sm:backdrop-blur-md 
-          rounded-[2rem] border border-white/10 p-6 shadow-2xl 
-          transition-all duration-300 ease-in-out z-20 overflow-hidden flex flex-col
-          ${showVariables ? 'translate-x-0 opacity-100 sm:ml-4' : 'translate-x-10 opacity-0 pointer-events-none w-0 p-0 border-0'}
-      `}>
-           <div className="flex items-center justify-between mb-4 text-white/80 pb-3 border-b border-white/10">
-              <div className="flex items-center gap-2">
-                  <Bookmark size={18} />
-                  <span className="font-medium">Variables</span>
-              </div>
-              {/* Mobile Close Button */}
-              <button 
-                onClick={() => setShowVariables(false)}
-                className="sm:hidden p-1 text-white/50 hover:text-white transition-colors"
-                title="Close"
-              >
-                  <X size={20} />
-              </button>
-           </div>
-          
-          <div className="flex-1 overflow-y-auto space-y-3 pr-1 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
-              {variables.length === 0 ? (
-                  <div className="text-white/30 text-center py-8 text-sm">No variables saved</div>
-              ) : (
-                  variables.map((v, i) => (
-                      <button 
-                        key={i} 
-                        onClick={() => handleVariableClick(v)}
-                        className="flex flex-col items-end w-full p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors text-right group/item"
-                      >
-                          <span className="text-neutral-300 text-sm font-medium mb-1 group-hover/item:text-neutral-200 transition-colors">
-                            {v.label}{v.unit ? ` (${v.unit})` : ''}
-                          </span>
-                          <span className="text-white/80 text-lg break-all">
-                              {v.value}{v.unit ? ` ${v.unit}` : ''}
-                          </span>
-                      </button>
-                  ))
-              )}
-          </div>
-      </div>
-
+      <HistoryPanel
+          calculator={calculator}
+          open={showHistory}
+          numberFormat={numberFormat}
+          onOpenChange={setShowHistory}
+          onContextChange={setTempContext}
+          onOperationChange={setActiveOp}
+          onMessage={showToast}
+      />
+      <VariablesPanel
+          calculator={calculator}
+          open={showVariables}
+          numberFormat={numberFormat}
+          onOpenChange={setShowVariables}
+          onEditFormula={setEditingFormula}
+          onImport={setImportDraft}
+          onMessage={showToast}
+      />
+      <TemplatesPanel
+          calculator={calculator}
+          open={showTemplates}
+          canSave={expressionTokens.length > 0}
+          onOpenChange={setShowTemplates}
+          onRun={setRunningTemplate}
+          onMessage={showToast}
+      />
+      <SheetPanel
+          calculator={calculator}
+          open={showSheet}
+          numberFormat={numberFormat}
+          onOpenChange={setShowSheet}
+      />
     </div>
   );
 }
@@ -1,35 +1,187 @@
-export type Operation = '+' | '-' | '×' | '÷';
+import { Decimal } from './decimal';
+import {
+  Quantity,
+  addQuantities,
+  divideQuantities,
+  formatUnit,
+  multiplyQuantities,
+  parseUnit,
+  subtractQuantities,
+} from './units';
+import type { CalculatorStore, PersistedState } from './storage';
+import { createDefaultSettings } from './storage';
+import { createAnsToken, parseExpression, serializeExpression } from './expressionText';
+import { CalculationError, CalculationErrorInfo } from './errors';
+import { deriveResultName } from './naming';
+import { FormulaError, findCycle, getDependencies, getDependentsInOrder, getDirectDependents, getFormulaText } from './formulas';
+import { endsValue, expectsOperandAfter, insertImplicitMultiplication, isUnaryAt } from './grammar';
+import { NumberFormatSettings, formatNumber, formatQuantity, shortenResult } from './format';
+import type { ImportPlanEntry } from './importers';
+import { RoundingSettings, applyRounding, resolveRoundingRule } from './rounding';
+import { SheetLine, SheetResult, evaluateSheet } from './sheet';
+import { solve } from './solver';
+import { FormulaTemplate, applyTemplate, createTemplate, getParameterDefaults } from './templates';
+import { TaxOperator, TaxSettings, applyPercentOperation, applyTax, isPercentOperation, percentValue } from './percent';
+import { CALCULATOR_STATE_VERSION, CalculatorState, parseCalculatorState } from './state';
+import { MATH_CONSTANTS, MathConstant, MathFunction, applyFunction, isMathConstant, isMathFunction, powerQuantity, rootQuantity } from './functions';
+
+export type Operation = '+' | '-' | '×' | '÷' | '^' | 'ⁿ√';
 export type VariableColor = 'red' | 'yellow' | 'blue' | 'orange' | 'green' | 'white';
 
 export interface ExpressionToken {
-  type: 'operand' | 'operator' | 'parenthesis';
+  type: 'operand' | 'operator' | 'parenthesis' | 'function' | 'constant' | 'postfix' | 'ans';
   value: string;
   label?: string; // User defined name for the operand
   unit?: string; // Unit string (e.g. "円", "kg")
-  id?: string; // Unique ID to identify which token to rename
+  id?: string; // Stable unique ID used to address the token for editing ('current' = input buffer)
   numberLabel?: string; // Value + Unit
   nameLabel?: string; // Label + (Unit)
   color?: VariableColor; // Color for highlighting
+  hasError?: boolean; // Set on the token a CalculationError points at (display only)
+  ghost?: boolean; // Pending ')' that calculate() will add automatically (display only)
+  subtotal?: string; // Formatted value of the group a ')' closes (display only)
+  variableId?: string; // SavedVariable this operand is linked to (value follows the variable)
+  rate?: string; // Tax rate in percent a 税込/税抜 token was entered with
+  ansIndex?: number; // Ans(n): history entry (1 = previous result) the value was taken from
+  lineId?: string; // Sheet line this operand refers to (value is that line's result)
 }
 
 export interface HistoryItem {
   expressionTokens: ExpressionToken[];
   result: string;
+  unit?: string; // Unit of the result derived from the operands
+  name?: string; // Derived from the operand labels ("単価×数量"), see naming.ts
+}
+
+// Running result of the expression being typed (see Calculator.getPreview)
+export interface PreviewResult {
+  value: string;
+  unit: string | null;
+}
+
+// User preferences that affect calculated values (persisted with history and variables)
+export interface CalculatorSettings {
+  rounding: RoundingSettings;
+  format: NumberFormatSettings;
+  tax: TaxSettings;
 }
 
 export interface SavedVariable {
+  id: string;
   label: string;
   value: string;
   unit?: string;
   timestamp: number;
   color?: VariableColor;
+  // Formula variables: the expression `value`/`unit` are computed from, operands linked to other variables (see formulas.ts)
+  formula?: ExpressionToken[];
+}
+
+// Memory slot with a running total (M+ / M− / MR / MC)
+export interface MemoryRegister {
+  name: string;
+  value: string;
+  unit?: string;
+}
+
+export const DEFAULT_MEMORY_REGISTER = 'M';
+
+// Intermediate results beyond this many integer digits are reported as overflow
+const MAX_RESULT_DIGITS = 100;
+// Intermediate results are rounded to this many fraction digits, so chained exact operations stay small
+const MAX_RESULT_SCALE = 100;
+
+// Token paired with its position in the original expression (for error reporting)
+interface PositionedToken {
+  token: ExpressionToken;
+  index: number;
 }
 
+// Internal operator values for unary signs (only used inside evaluateExpression)
+const UNARY_MINUS = 'u-';
+const UNARY_PLUS = 'u+';
+
+// Operator precedence; ^ and ⁿ√ bind tighter than × ÷ and are right-associative (2^3^2 = 2^9).
+// Unary signs sit between them, so -2^2 = -(2^2) while -2 × 3 = (-2) × 3.
+const PRECEDENCE: Record<string, number> = {
+  '+': 1, '-': 1,
+  '×': 2, '÷': 2,
+  [UNARY_MINUS]: 2.5, [UNARY_PLUS]: 2.5,
+  '^': 3, 'ⁿ√': 3
+};
+const RIGHT_ASSOCIATIVE = new Set(['^', 'ⁿ√']);
+
+// Number of '(' (including function calls) not yet closed
+const countOpenGroups = (tokens: ExpressionToken[]): number =>
+  tokens.reduce((depth, t) => {
+    if (t.type !== 'parenthesis') return depth;
+    return t.value === '(' ? depth + 1 : Math.max(0, depth - 1);
+  }, 0);
+
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Maximum number of undo (and redo) steps kept in memory
+const MAX_UNDO_STEPS = 100;
+
+// Parts of the state a change event can refer to:
+//   expression - committed tokens and the operator state
+//   display    - input buffer / result, its unit and label, the error and undo/redo availability
+//   history    - calculation history
+//   variables  - saved variables
+//   memory     - memory registers
+//   sheet      - calculation sheet lines and their results
+//   templates  - formula templates
+export type CalculatorChangeType = 'expression' | 'display' | 'history' | 'variables' | 'memory' | 'sheet' | 'templates';
+
+export interface CalculatorChangeEvent {
+  type: CalculatorChangeType;
+}
+
+export type CalculatorListener = (event: CalculatorChangeEvent) => void;
+
+// State fields each change type is derived from (display also covers the preview and undo/redo availability)
+const SECTION_FIELDS: Record<CalculatorChangeType, (keyof CalculatorState)[]> = {
+  expression: ['inputHistory', 'operation', 'error', 'settings'],
+  display: [
+    'currentValue', 'currentLabel', 'currentUnit', 'currentColor', 'currentVariableId', 'shouldResetScreen',
+    'isIntermediateResult', 'error', 'settings', 'inputHistory', 'operation', 'variables'
+  ],
+  history: ['history'],
+  variables: ['variables'],
+  memory: ['memory'],
+  sheet: ['sheet', 'variables', 'settings'],
+  templates: ['templates']
+};
+
+// State serialized field by field, so two snapshots tell which fields changed (JSON doubles as a deep copy)
+type StateSnapshot = Record<keyof CalculatorState, string>;
+
+// Fields that are replaced rather than changed in place; their JSON is cached by reference (see captureSnapshot)
+const REPLACED_FIELDS: (keyof CalculatorState)[] = ['history', 'variables', 'memory', 'sheet', 'templates', 'settings'];
+
+const changedFields = (before: StateSnapshot, after: StateSnapshot): (keyof CalculatorState)[] =>
+  (Object.keys(after) as (keyof CalculatorState)[]).filter(key => after[key] !== before[key]);
+
+// Outcome of Calculator.goalSeek (values as canonical number strings)
+export type GoalSeekResult =
+  | { kind: 'solved', value: string }
+  | { kind: 'none' }
+  | { kind: 'multiple', values: string[] }
+  | { kind: 'any' };
+
+// Fields of a sheet line that can be edited
+export type SheetLineChanges = Partial<Pick<SheetLine, 'label' | 'text'>>;
+
+// Fields of a token that can be edited in place
+export type TokenChanges = Partial<Pick<ExpressionToken, 'value' | 'label' | 'unit' | 'color' | 'variableId'>>;
+
 export class Calculator {
   private currentValue: string = '0';
   private currentLabel: string | null = null;
   private currentUnit: string | null = null;
   private currentColor: VariableColor | null = null;
+  private currentVariableId: string | null = null;
   
   // Previous value logic is kept for basic 1+1 intermediate calc visualization if needed,
   // but we primarily rely on inputHistory for the full expression now.
@@ -40,8 +192,12 @@ export class Calculator {
   
   private operation: Operation | null = null;
   private shouldResetScreen: boolean = false;
+  // Collections below (and settings) are only ever replaced, never changed in place (see REPLACED_FIELDS)
   private history: HistoryItem[] = [];
   private variables: SavedVariable[] = [];
+  private memory: MemoryRegister[] = [];
+  private sheet: SheetLine[] = [];
+  private templates: FormulaTemplate[] = [];
 
   // Used to persist expression tokens even after calculation for history
   private lastExpressionTokens: ExpressionToken[] | null = null;
@@ -52,63 +208,407 @@ export class Calculator {
   // Tracks whether current value is an intermediate result (gray, non-editable)
   private isIntermediateResult: boolean = false;
 
+  // Last calculation error; the expression is kept so the offending token can be fixed
+  private error: CalculationErrorInfo | null = null;
+
+  private settings: CalculatorSettings = createDefaultSettings();
+
+  // Optional persistence for history and variables (attached once storage is available)
+  private store: CalculatorStore | null = null;
+  // Store whose load is in flight (see attachStore)
+  private loadingStore: CalculatorStore | null = null;
+
+  // Snapshots taken before each state-changing operation
+  private undoStack: StateSnapshot[] = [];
+  private redoStack: StateSnapshot[] = [];
+  // JSON of the collections in REPLACED_FIELDS, shared by every snapshot taken while they stay the same
+  private serialized = new WeakMap<object, string>();
+  // Incremented whenever the part of the state a change type reports on changes (see markChanged)
+  private sectionVersions: Record<CalculatorChangeType, number> = {
+      expression: 0, display: 0, history: 0, variables: 0, memory: 0, sheet: 0, templates: 0
+  };
+  // Nesting depth of runAction, so operations built from other operations record a single step
+  private actionDepth: number = 0;
+
+  private listeners = new Set<CalculatorListener>();
+
   constructor() {}
 
+  // Loads persisted history/variables and keeps the store in sync from then on.
+  // Entries created before the load finished are kept and take precedence.
+  // Ignored while a store is attached or loading, so a second mount (React StrictMode) cannot merge the data twice;
+  // aborting `signal` drops a pending load and lets the next call attach instead.
+  public async attachStore(store: CalculatorStore, signal?: AbortSignal): Promise<void> {
+      if (this.store || this.loadingStore || signal?.aborted) return;
+      this.loadingStore = store;
+      const release = () => {
+          if (this.loadingStore === store) this.loadingStore = null;
+      };
+      signal?.addEventListener('abort', release);
+      let data: PersistedState | null;
+      try {
+          data = await store.load();
+      } catch (e) {
+          release();
+          throw e;
+      } finally {
+          signal?.removeEventListener('abort', release);
+      }
+      if (signal?.aborted) return;
+      this.loadingStore = null;
+
+      const before = this.captureSnapshot();
+      const versions = { ...this.sectionVersions };
+      if (data) {
+          this.history = [...this.history, ...data.history].slice(0, 50);
+          const labels = new Set(this.variables.map(v => v.label));
+          this.variables = [...this.variables, ...data.variables.filter(v => !labels.has(v.label))];
+          this.variables.sort((a, b) => b.timestamp - a.timestamp);
+          const names = new Set(this.memory.map(m => m.name));
+          this.memory = [...this.memory, ...data.memory.filter(m => !names.has(m.name))];
+          if (this.sheet.length === 0) this.sheet = data.sheet;
+          const templateNames = new Set(this.templates.map(t => t.name));
+          this.templates = [...this.templates, ...data.templates.filter(t => !templateNames.has(t.name))];
+          this.settings = data.settings;
+      }
+      this.store = store;
+      this.persist();
+      this.markChanged(changedFields(before, this.captureSnapshot()), false);
+      this.emitChanges(versions);
+  }
+
+  private persist(): void {
+      if (!this.store) return;
+      this.store.save({ history: this.history, variables: this.variables, memory: this.memory, sheet: this.sheet, templates: this.templates, settings: this.settings }).catch(e => {
+          console.warn('Failed to persist calculator state', e);
+      });
+  }
+
+  // --- Undo / redo ---
+
+  // Only the expression and the scalar fields are serialized on every call; an unchanged collection
+  // reuses its cached JSON, so the snapshots on the undo stack share one string for it
+  private captureSnapshot(): StateSnapshot {
+      const state = this.buildState();
+      const snapshot = {} as StateSnapshot;
+      (Object.keys(state) as (keyof CalculatorState)[]).forEach(key => {
+          snapshot[key] = REPLACED_FIELDS.includes(key) ? this.serialize(state[key] as object) : JSON.stringify(state[key]);
+      });
+      return snapshot;
+  }
+
+  private serialize(value: object): string {
+      let json = this.serialized.get(value);
+      if (json === undefined) {
+          json = JSON.stringify(value);
+          this.serialized.set(value, json);
+      }
+      return json;
+  }
+
+  private restoreSnapshot(snapshot: StateSnapshot): void {
+      const state: Record<string, unknown> = {};
+      (Object.keys(snapshot) as (keyof CalculatorState)[]).forEach(key => {
+          state[key] = JSON.parse(snapshot[key]);
+          // The restored copy serializes to the string it came from
+          if (REPLACED_FIELDS.includes(key)) this.serialized.set(state[key] as object, snapshot[key]);
+      });
+      this.applyState(state as unknown as CalculatorState);
+  }
+
+  // Runs a state-changing operation as one undo step and notifies subscribers of what changed.
+  // Nested calls (recalculateHistoryItem -> clear + calculate) belong to the outermost step,
+  // and operations that change nothing are neither recorded nor announced.
+  private runAction<T>(action: () => T): T {
+      if (this.actionDepth > 0) return action();
+
+      const before = this.captureSnapshot();
+      const versions = { ...this.sectionVersions };
+      this.actionDepth++;
+      let result: T;
+      try {
+          result = action();
+      } finally {
+          this.actionDepth--;
+      }
+      const changed = changedFields(before, this.captureSnapshot());
+      const [couldUndo, couldRedo] = [this.canUndo(), this.canRedo()];
+      if (changed.length > 0) {
+          this.undoStack.push(before);
+          if (this.undoStack.length > MAX_UNDO_STEPS) this.undoStack.shift();
+          this.redoStack = [];
+      }
+      this.markChanged(changed, this.canUndo() !== couldUndo || this.canRedo() !== couldRedo);
+      this.emitChanges(versions);
+      return result;
+  }
+
+  public undo(): boolean {
+      const snapshot = this.undoStack.pop();
+      if (snapshot === undefined) return false;
+      const versions = { ...this.sectionVersions };
+      const before = this.captureSnapshot();
+      this.redoStack.push(before);
+      this.restoreSnapshot(snapshot);
+      this.persist();
+      this.markChanged(changedFields(before, snapshot), true);
+      this.emitChanges(versions);
+      return true;
+  }
+
+  public redo(): boolean {
+      const snapshot = this.redoStack.pop();
+      if (snapshot === undefined) return false;
+      const versions = { ...this.sectionVersions };
+      const before = this.captureSnapshot();
+      this.undoStack.push(before);
+      this.restoreSnapshot(snapshot);
+      this.persist();
+      this.markChanged(changedFields(before, snapshot), true);
+      this.emitChanges(versions);
+      return true;
+  }
+
+  public canUndo(): boolean {
+      return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+      return this.redoStack.length > 0;
+  }
+
+  // --- Change events ---
+
+  // Returns the unsubscribe function (unsubscribe(listener) works as well)
+  public subscribe(listener: CalculatorListener): () => void {
+      this.listeners.add(listener);
+      return () => this.unsubscribe(listener);
+  }
+
+  public unsubscribe(listener: CalculatorListener): void {
+      this.listeners.delete(listener);
+  }
+
+  // Per-section counters bumped on every change, so views can tell whether a section changed without listening
+  public getSectionVersions(): Readonly<Record<CalculatorChangeType, number>> {
+      return this.sectionVersions;
+  }
+
+  // Bumps the version of every section derived from a changed field; display also shows undo/redo availability
+  private markChanged(changed: (keyof CalculatorState)[], undoAvailabilityChanged: boolean): void {
+      (Object.keys(SECTION_FIELDS) as CalculatorChangeType[]).forEach(type => {
+          if (SECTION_FIELDS[type].some(field => changed.includes(field))) this.sectionVersions[type]++;
+      });
+      if (undoAvailabilityChanged) this.sectionVersions.display++;
+  }
+
+  private emitChanges(before: Record<CalculatorChangeType, number>): void {
+      if (this.listeners.size === 0) return;
+      (Object.keys(before) as CalculatorChangeType[]).forEach(type => {
+          if (this.sectionVersions[type] === before[type]) return;
+          // Copy so a listener that unsubscribes while being notified does not disturb the loop
+          [...this.listeners].forEach(listener => listener({ type }));
+      });
+  }
+
+  // --- Serializable state ---
+
+  // Live references to the internal state; callers copy before handing it out
+  private buildState(): CalculatorState {
+      return {
+          version: CALCULATOR_STATE_VERSION,
+          currentValue: this.currentValue,
+          currentLabel: this.currentLabel,
+          currentUnit: this.currentUnit,
+          currentColor: this.currentColor,
+          currentVariableId: this.currentVariableId,
+          previousValue: this.previousValue,
+          previousLabel: this.previousLabel,
+          previousUnit: this.previousUnit,
+          previousColor: this.previousColor,
+          operation: this.operation,
+          shouldResetScreen: this.shouldResetScreen,
+          history: this.history,
+          variables: this.variables,
+          memory: this.memory,
+          sheet: this.sheet,
+          templates: this.templates,
+          lastExpressionTokens: this.lastExpressionTokens,
+          inputHistory: this.inputHistory,
+          isIntermediateResult: this.isIntermediateResult,
+          error: this.error,
+          settings: this.settings
+      };
+  }
+
+  private applyState(state: CalculatorState): void {
+      this.currentValue = state.currentValue;
+      this.currentLabel = state.currentLabel;
+      this.currentUnit = state.currentUnit;
+      this.currentColor = state.currentColor;
+      this.currentVariableId = state.currentVariableId;
+      this.previousValue = state.previousValue;
+      this.previousLabel = state.previousLabel;
+      this.previousUnit = state.previousUnit;
+      this.previousColor = state.previousColor;
+      this.operation = state.operation;
+      this.shouldResetScreen = state.shouldResetScreen;
+      this.history = state.history;
+      this.variables = state.variables;
+      this.memory = state.memory;
+      this.sheet = state.sheet;
+      this.templates = state.templates;
+      this.lastExpressionTokens = state.lastExpressionTokens;
+      this.inputHistory = state.inputHistory;
+      this.isIntermediateResult = state.isIntermediateResult;
+      this.error = state.error;
+      this.settings = state.settings;
+  }
+
+  // Deep copy of the complete state (JSON.stringify(calculator) uses this too)
+  public toJSON(): CalculatorState {
+      return JSON.parse(JSON.stringify(this.buildState()));
+  }
+
+  // Replaces the whole state with a validated one (state object or JSON text); can be undone.
+  // Throws InvalidStateError and leaves the calculator untouched when the state is invalid.
+  public loadState(input: unknown): void {
+      const state = parseCalculatorState(input);
+      this.runAction(() => {
+          this.applyState(JSON.parse(JSON.stringify(state)));
+      });
+      this.persist();
+  }
+
+  public static fromJSON(input: unknown): Calculator {
+      const calculator = new Calculator();
+      calculator.applyState(JSON.parse(JSON.stringify(parseCalculatorState(input))));
+      return calculator;
+  }
+
   public inputDigit(digit: string): void {
-    if (this.currentValue[0] === '0' && this.currentValue.length === 1 && digit === '0') return;
+    this.runAction(() => {
+      this.error = null;
+      if (this.currentValue[0] === '0' && this.currentValue.length === 1 && digit === '0') return;
     
-    if (this.shouldResetScreen) {
-      this.currentValue = digit;
-      this.currentLabel = null; // Reset label on new input start
-      this.currentUnit = null;  // Reset unit on new input start
-      this.currentColor = null; // Reset color on new input start
-      this.shouldResetScreen = false;
-      this.isIntermediateResult = false; // User is typing, no longer intermediate
-      
-      // If we just finished a calculation (shouldResetScreen=true) and user types a number,
-      // we usually start fresh. Logic handled in inputHistory management.
-      if (this.operation === null && this.inputHistory.length === 0) {
-          // Fresh start
-      }
-    } else {
-      if (this.currentValue === '0' && digit !== '.') {
+      if (this.shouldResetScreen) {
+        this.insertImplicitMultiplication();
         this.currentValue = digit;
+        this.currentLabel = null; // Reset label on new input start
+        this.currentUnit = null;  // Reset unit on new input start
+        this.currentColor = null; // Reset color on new input start
+        this.currentVariableId = null;
+        this.shouldResetScreen = false;
+        this.isIntermediateResult = false; // User is typing, no longer intermediate
+      
+        // If we just finished a calculation (shouldResetScreen=true) and user types a number,
+        // we usually start fresh. Logic handled in inputHistory management.
+        if (this.operation === null && this.inputHistory.length === 0) {
+            // Fresh start
+        }
       } else {
-          if(digit === '.' && this.currentValue.includes('.')) return;
-        this.currentValue += digit;
-        this.currentLabel = null; // Clear label if modifying value
+        if (this.currentValue === '0' && digit !== '.') {
+          this.currentValue = digit;
+        } else {
+            if(digit === '.' && this.currentValue.includes('.')) return;
+          this.currentValue += digit;
+          this.currentLabel = null; // Clear label if modifying value
+          this.currentVariableId = null; // Typed value no longer follows the variable
+        }
       }
-    }
+    });
   }
 
   public inputDot(): void {
-      if (!this.currentValue.includes('.')) {
-          this.currentValue += '.';
-          this.shouldResetScreen = false;
+      this.runAction(() => {
+        this.error = null;
+        if (!this.currentValue.includes('.')) {
+            this.currentValue += '.';
+            this.shouldResetScreen = false;
+        }
+      });
+  }
+
+  // A value typed right after another value multiplies: 2( -> 2 × (, )( -> ) × (, )2 -> ) × 2
+  private insertImplicitMultiplication(): void {
+      const last = this.inputHistory[this.inputHistory.length - 1];
+      if (!this.shouldResetScreen && this.currentValue !== '0' && this.currentValue !== '') {
+          this.setOperation('×');
+      } else if (this.shouldResetScreen && last && last.type !== 'operand' && endsValue(last)) {
+          // After ')' or a constant (a committed operand here means a loaded result, not a value to multiply)
+          this.inputHistory.push({ type: 'operator', value: '×' });
       }
   }
 
   public inputParenthesis(type: '(' | ')'): void {
-      // If user types '('
-      // If we are typing a number (not reset screen), it's multiplication? "2(" -> "2 * ("
-      // For now, simpler: '(' is allowed at start or after operator.
-      // If after number, assume multiplication? Let's just push it for now.
-      
-      if (type === '(') {
-          if (!this.shouldResetScreen && this.currentValue !== '0' && this.currentValue !== '') {
-              // Implicit multiplication: 2( -> 2 * (
-              this.setOperation('×');
-          }
-          this.inputHistory.push({ type: 'parenthesis', value: '(' });
-      } else {
-          // ')'
-          // Push current value first if valid
-          if (!this.shouldResetScreen) {
-             this.pushCurrentValueToHistory();
-          }
-          this.inputHistory.push({ type: 'parenthesis', value: ')' });
-          this.shouldResetScreen = true; // After ')', next input starts new or follows op
-      }
+      this.runAction(() => {
+        this.error = null;
+        if (type === '(') {
+            this.insertImplicitMultiplication();
+            this.inputHistory.push({ type: 'parenthesis', value: '(' });
+            this.shouldResetScreen = true; // The group starts with a fresh operand
+        } else {
+            // ')' only closes an open group, and only once the group has something to close
+            if (this.getOpenParenthesisDepth() === 0) return;
+            const last = this.inputHistory[this.inputHistory.length - 1];
+            if (this.shouldResetScreen && expectsOperandAfter(last)) return;
+
+            // Push current value first if valid
+            if (!this.shouldResetScreen) {
+               this.pushCurrentValueToHistory();
+            }
+            this.inputHistory.push({ type: 'parenthesis', value: ')' });
+            this.shouldResetScreen = true; // After ')', next input starts new or follows op
+        }
+      });
+  }
+
+  // Number of '(' (including function calls) not yet closed
+  public getOpenParenthesisDepth(): number {
+      return countOpenGroups(this.inputHistory);
+  }
+
+  // Named function (sin, √, ...): pushed together with its opening parenthesis
+  public inputFunction(fn: MathFunction): void {
+      this.runAction(() => {
+        this.error = null;
+        this.insertImplicitMultiplication(); // 2sin( -> 2 × sin(
+        this.inputHistory.push({ type: 'function', value: fn });
+        this.inputHistory.push({ type: 'parenthesis', value: '(' });
+        this.shouldResetScreen = true;
+      });
+  }
+
+  // Constant (π, e): a complete operand, so the next key is expected to be an operator
+  public inputConstant(constant: MathConstant): void {
+      this.runAction(() => {
+        this.error = null;
+        this.insertImplicitMultiplication();
+        this.inputHistory.push({ type: 'constant', value: constant });
+        this.currentValue = MATH_CONSTANTS[constant].toString();
+        this.currentLabel = null;
+        this.currentUnit = null;
+        this.currentColor = null;
+        this.currentVariableId = null;
+        this.shouldResetScreen = true;
+      });
+  }
+
+  // Ans (previous result) or Ans(n) (history entry n): like a constant, a complete operand
+  public inputAns(n: number = 1): void {
+      this.runAction(() => {
+        const item = this.history[n - 1];
+        if (!item) return;
+        this.error = null;
+        this.insertImplicitMultiplication();
+        this.inputHistory.push(this.decorateToken(createAnsToken(n, item)));
+        this.currentValue = item.result;
+        this.currentLabel = null;
+        this.currentUnit = item.unit || null;
+        this.currentColor = null;
+        this.currentVariableId = null;
+        this.shouldResetScreen = true;
+      });
   }
 
   private pushCurrentValueToHistory(): void {
@@ -119,128 +619,219 @@ export class Calculator {
         unit: this.currentUnit || undefined,
         numberLabel: this.formatNumberLabel(this.currentValue, this.currentUnit),
         nameLabel: this.formatNameLabel(this.currentLabel, this.currentUnit),
-        color: this.currentColor || undefined
+        color: this.currentColor || undefined,
+        variableId: this.currentVariableId || undefined
       });
   }
 
   public setOperation(op: Operation): void {
-    const isStartingNewCalculation = this.shouldResetScreen && this.inputHistory.length === 0;
-    const hasTypedNewValue = !this.shouldResetScreen;
+    this.runAction(() => {
+      this.error = null;
+      const last = this.inputHistory[this.inputHistory.length - 1];
+      const isFreshInput = !this.shouldResetScreen && this.inputHistory.length === 0 && this.currentValue === '0';
+      const isSign = op === '+' || op === '-';
+
+      // Operand position (after an operator, '(' or a function, or before anything was typed)
+      if ((this.shouldResetScreen && last && expectsOperandAfter(last)) || (isFreshInput && isSign)) {
+          this.applyOperatorInOperandPosition(op);
+          return;
+      }
+
+      const isStartingNewCalculation = this.shouldResetScreen && this.inputHistory.length === 0;
+      const hasTypedNewValue = !this.shouldResetScreen;
     
-    // If user presses op after typing number, push number.
-    if (hasTypedNewValue) {
-      this.pushCurrentValueToHistory();
-    } 
-    // If user presses op after result (isStartingNewCalculation), 
-    // we use the result as the first operand.
-    else if (isStartingNewCalculation) {
-        // Only if inputHistory is empty (meaning we just cleared or finished calc)
-        // AND we have a currentValue (result).
-         this.inputHistory.push({
-            type: 'operand',
-            value: this.currentValue,
-            label: this.currentLabel || undefined,
-            unit: this.currentUnit || undefined,
-            numberLabel: this.formatNumberLabel(this.currentValue, this.currentUnit),
-            nameLabel: this.formatNameLabel(this.currentLabel, this.currentUnit),
-            color: this.currentColor || undefined
-        });
-    } else {
-        // If user presses op after just pushing an operator, replace it?
-        // Or if after ')'.
-        const last = this.inputHistory[this.inputHistory.length - 1];
-        if (last && last.type === 'operator') {
-            last.value = op; // Replace operator
-            this.operation = op;
-            return;
-        }
-    }
+      // If user presses op after typing number, push number.
+      if (hasTypedNewValue) {
+        this.pushCurrentValueToHistory();
+      } 
+      // If user presses op after result (isStartingNewCalculation), 
+      // we use the result as the first operand.
+      else if (isStartingNewCalculation) {
+          // Only if inputHistory is empty (meaning we just cleared or finished calc)
+          // AND we have a currentValue (result).
+           this.inputHistory.push({
+              type: 'operand',
+              value: this.currentValue,
+              label: this.currentLabel || undefined,
+              unit: this.currentUnit || undefined,
+              numberLabel: this.formatNumberLabel(this.currentValue, this.currentUnit),
+              nameLabel: this.formatNameLabel(this.currentLabel, this.currentUnit),
+              color: this.currentColor || undefined
+          });
+      }
+      // Otherwise we are after ')', a constant or a postfix operator: the operator simply follows it
     
-    this.inputHistory.push({
-      type: 'operator',
-      value: op
-    });
+      this.inputHistory.push({
+        type: 'operator',
+        value: op
+      });
     
-    this.operation = op; // Keep for display/intermediate logic if needed, but primary is inputHistory
-    this.shouldResetScreen = true;
+      this.operation = op; // Keep for display/intermediate logic if needed, but primary is inputHistory
+      this.shouldResetScreen = true;
     
-    // Reset "current" naming/coloring properties for the next number
-    this.currentLabel = null;
-    this.currentUnit = null;
-    this.currentColor = null;
+      // Reset "current" naming/coloring properties for the next number
+      this.currentLabel = null;
+      this.currentUnit = null;
+      this.currentColor = null;
+      this.currentVariableId = null;
+    });
+  }
+
+  // An operator where an operand is expected: either a unary sign or a correction of the previous operator
+  private applyOperatorInOperandPosition(op: Operation): void {
+      const isSign = op === '+' || op === '-';
+      const lastIndex = this.inputHistory.length - 1;
+      const last = this.inputHistory[lastIndex];
+
+      if (last && isUnaryAt(this.inputHistory, lastIndex)) {
+          if (isSign) {
+              last.value = op; // Swap the pending sign
+              return;
+          }
+          // A binary operator after a sign: drop the sign and replace the operator before it
+          this.inputHistory.pop();
+          const prev = this.inputHistory[this.inputHistory.length - 1];
+          if (prev && prev.type === 'operator') {
+              prev.value = op;
+              this.operation = op;
+          }
+          return;
+      }
+
+      if (last && last.type === 'operator') {
+          // "2 × -" starts a negative operand; "2 + -" or "2 + ×" changes the operator
+          if (isSign && last.value !== '+' && last.value !== '-') {
+              this.inputHistory.push({ type: 'operator', value: op });
+          } else {
+              last.value = op;
+              this.operation = op;
+          }
+          return;
+      }
+
+      // Start of input, after '(' or a function: only a sign makes sense
+      if (isSign) {
+          this.inputHistory.push({ type: 'operator', value: op });
+          this.shouldResetScreen = true;
+      }
   }
 
-  // Not used as strictly anymore, but compatible fallback
-  private calculateIntermediate(): void {
-     // No-op for complex precedence calculator or implement partial eval
+  // Evaluates a partial expression: trailing operators, signs, '(' and functions are ignored and open
+  // groups are closed. Null when there is no more than a single value or the rest does not evaluate.
+  private calculateIntermediate(tokens: ExpressionToken[]): PreviewResult | null {
+      const complete = [...tokens];
+      while (complete.length > 0 && !endsValue(complete[complete.length - 1])) complete.pop();
+      if (complete.length < 2) return null;
+
+      const closers: ExpressionToken[] = Array.from({ length: countOpenGroups(complete) }, () => ({ type: 'parenthesis', value: ')' }));
+      try {
+          const result = this.evaluateExpression([...complete, ...closers]);
+          const unit = formatUnit(result.unit);
+          return { value: shortenResult(this.roundForUnit(result.value, unit)), unit };
+      } catch {
+          return null;
+      }
+  }
+
+  // Live result of the expression typed so far; null right after "=" or while it is incomplete
+  public getPreview(): PreviewResult | null {
+      return this.calculateIntermediate(this.buildExpressionTokens());
   }
 
   public calculate(): void {
-    // 1. Push final value if pending
-    if (!this.shouldResetScreen) {
-        this.pushCurrentValueToHistory();
-    }
+    this.runAction(() => {
+      this.error = null;
+
+      // 1. Push final value if pending
+      const pushedBuffer = !this.shouldResetScreen;
+      if (pushedBuffer) {
+          this.pushCurrentValueToHistory();
+      }
     
-    const expression = [...this.inputHistory];
+      // Auto-close open groups; an expression that still doesn't parse is reported, not guessed at
+      const closers: ExpressionToken[] = Array.from({ length: this.getOpenParenthesisDepth() }, () => ({ type: 'parenthesis', value: ')' }));
+      const expression = [...this.inputHistory, ...closers];
     
-    if (expression.length === 0) return;
+      if (expression.length === 0) return;
 
-    // 2. Evaluate using Shunting-yard + RPN Evaluator
-    try {
-        const resultVal = this.evaluateExpression(expression);
-        const resultString = this.formatResult(resultVal);
+      // 2. Evaluate using Shunting-yard + RPN Evaluator
+      try {
+          const resultVal = this.evaluateExpression(expression);
+          const resultUnit = formatUnit(resultVal.unit);
+          const resultString = shortenResult(this.roundForUnit(resultVal.value, resultUnit));
+          const resultName = deriveResultName(expression);
 
-        // 3. Save History
-        this.history.unshift({
-            expressionTokens: [...expression],
-            result: resultString
-        });
-        if (this.history.length > 50) this.history.pop();
+          // 3. Save History
+          const item: HistoryItem = {
+              expressionTokens: [...expression],
+              result: resultString,
+              unit: resultUnit || undefined,
+              name: resultName ?? undefined
+          };
+          this.history = [item, ...this.history].slice(0, 50);
+          this.persist();
         
-        // 4. Reset State
-        this.currentValue = resultString;
-        this.inputHistory = []; // Clear current expression
-        this.shouldResetScreen = true;
-        this.isIntermediateResult = false;
+          // 4. Reset State
+          this.currentValue = resultString;
+          this.inputHistory = []; // Clear current expression
+          this.shouldResetScreen = true;
+          this.isIntermediateResult = false;
         
-        this.operation = null;
-        this.currentLabel = null; 
-        this.currentUnit = null;
-        this.currentColor = null;
+          this.operation = null;
+          this.currentLabel = resultName; // Result carries its derived name and unit into the next calculation
+          this.currentUnit = resultUnit;
+          this.currentColor = null;
+          this.currentVariableId = null;
 
-    } catch (e) {
-        this.handleError();
-    }
+      } catch (e) {
+          this.handleError(e, pushedBuffer);
+      }
+    });
   }
 
-  private evaluateExpression(tokens: ExpressionToken[]): number {
-      const outputQueue: ExpressionToken[] = [];
-      const operatorStack: ExpressionToken[] = [];
-      
-      const precedence: {[key: string]: number} = {
-          '+': 1, '-': 1,
-          '×': 2, '÷': 2
-      };
+  // Shunting-yard + RPN evaluation. Failures are reported as CalculationError with the index
+  // of the offending token in `tokens`.
+  private evaluateExpression(tokens: ExpressionToken[]): Quantity {
+      const outputQueue: PositionedToken[] = [];
+      const operatorStack: PositionedToken[] = [];
+      const top = (): ExpressionToken | undefined => operatorStack[operatorStack.length - 1]?.token;
 
-      tokens.forEach(token => {
-          if (token.type === 'operand') {
-              outputQueue.push(token);
+      const normalized = insertImplicitMultiplication(tokens);
+      const positions = new Map(tokens.map((t, i) => [t, i] as [ExpressionToken, number]));
+      normalized.forEach((token, i) => {
+          // Implicit × tokens report the position of the value they precede
+          const index = positions.get(token) ?? positions.get(normalized[i + 1]) ?? i;
+          if (token.type === 'operator' && isUnaryAt(normalized, i)) {
+              // Prefix operators never pop others; they bind to the operand that follows
+              operatorStack.push({ token: { type: 'operator', value: token.value === '-' ? UNARY_MINUS : UNARY_PLUS }, index });
+          } else if (token.type === 'operand' || token.type === 'constant' || token.type === 'ans' || token.type === 'postfix') {
+              // Postfix operators bind tighter than anything else, so they go straight to the output
+              outputQueue.push({ token, index });
+          } else if (token.type === 'function') {
+              operatorStack.push({ token, index });
           } else if (token.type === 'operator') {
-              while (operatorStack.length > 0 && 
-                     operatorStack[operatorStack.length - 1].type === 'operator' &&
-                     precedence[operatorStack[operatorStack.length - 1].value] >= precedence[token.value]) {
+              const rightAssoc = RIGHT_ASSOCIATIVE.has(token.value);
+              while (operatorStack.length > 0 && top()!.type === 'operator') {
+                  const topPrecedence = PRECEDENCE[top()!.value];
+                  const tokenPrecedence = PRECEDENCE[token.value];
+                  if (topPrecedence < tokenPrecedence || (rightAssoc && topPrecedence === tokenPrecedence)) break;
                   outputQueue.push(operatorStack.pop()!);
               }
-              operatorStack.push(token);
+              operatorStack.push({ token, index });
           } else if (token.type === 'parenthesis') {
               if (token.value === '(') {
-                  operatorStack.push(token);
+                  operatorStack.push({ token, index });
               } else {
-                  while (operatorStack.length > 0 && operatorStack[operatorStack.length - 1].value !== '(') {
+                  while (operatorStack.length > 0 && top()!.type !== 'parenthesis') {
                       outputQueue.push(operatorStack.pop()!);
                   }
-                  if (operatorStack.length > 0 && operatorStack[operatorStack.length - 1].value === '(') {
-                      operatorStack.pop(); // Pop '('
+                  if (operatorStack.length === 0) {
+                      throw new CalculationError('mismatchedParentheses', undefined, index);
+                  }
+                  operatorStack.pop(); // Pop '('
+                  // A function directly before the group applies to it: sin(...)
+                  if (operatorStack.length > 0 && top()!.type === 'function') {
+                      outputQueue.push(operatorStack.pop()!);
                   }
               }
           }
@@ -248,137 +839,280 @@ export class Calculator {
       
       while (operatorStack.length > 0) {
           const op = operatorStack.pop()!;
-          if (op.type === 'parenthesis') continue; // Mismatched parens logic
+          if (op.token.type === 'parenthesis') {
+              throw new CalculationError('mismatchedParentheses', undefined, op.index);
+          }
           outputQueue.push(op);
       }
       
-      // RPN Evaluation
-      const evalStack: number[] = [];
-      outputQueue.forEach(token => {
-          if (token.type === 'operand') {
-              evalStack.push(parseFloat(token.value));
-          } else if (token.type === 'operator') {
-              const b = evalStack.pop();
-              const a = evalStack.pop();
-              if (a === undefined || b === undefined) throw new Error("Invalid Expression");
-              
-              let res = 0;
-              switch (token.value) {
-                  case '+': res = a + b; break;
-                  case '-': res = a - b; break;
-                  case '×': res = a * b; break;
-                  case '÷': 
-                    if (b === 0) throw new Error("Division by Zero");
-                    res = a / b; break;
+      // RPN Evaluation (exact decimal arithmetic, unit-aware).
+      // A percentage keeps its business meaning only as the right operand of + - × ÷; anywhere else it is b/100.
+      const evalStack: { quantity: Quantity, index: number, percent: boolean }[] = [];
+      const popEntry = (index: number) => {
+          const entry = evalStack.pop();
+          if (!entry) throw new CalculationError('invalidExpression', undefined, index);
+          return entry;
+      };
+      const pop = (index: number): Quantity => {
+          const entry = popEntry(index);
+          return entry.percent ? percentValue(entry.quantity) : entry.quantity;
+      };
+
+      outputQueue.forEach(({ token, index }) => {
+          let res: Quantity;
+          let percent = false;
+          try {
+              if (token.type === 'operand' || token.type === 'ans') {
+                  res = { value: Decimal.from(token.value), unit: parseUnit(token.unit) };
+              } else if (token.type === 'constant') {
+                  if (!isMathConstant(token.value)) throw new CalculationError('invalidExpression');
+                  res = { value: MATH_CONSTANTS[token.value], unit: {} };
+              } else if (token.type === 'function') {
+                  const arg = pop(index);
+                  if (!isMathFunction(token.value)) throw new CalculationError('invalidExpression');
+                  res = applyFunction(token.value, arg);
+              } else if (token.type === 'postfix') {
+                  const a = pop(index);
+                  if (token.value === '%') {
+                      res = a;
+                      percent = true;
+                  } else if (token.value === '税込' || token.value === '税抜') {
+                      res = applyTax(token.value, a, token.rate ?? this.settings.tax.rate);
+                  } else {
+                      throw new CalculationError('invalidExpression');
+                  }
+              } else if (token.value === UNARY_MINUS || token.value === UNARY_PLUS) {
+                  // -10% stays a percentage
+                  const entry = popEntry(index);
+                  const a = entry.quantity;
+                  res = token.value === UNARY_MINUS ? { value: a.value.negated(), unit: a.unit } : a;
+                  percent = entry.percent;
+              } else if (evalStack[evalStack.length - 1]?.percent && isPercentOperation(token.value)) {
+                  const b = popEntry(index).quantity;
+                  const a = pop(index);
+                  res = applyPercentOperation(token.value, a, b);
+              } else {
+                  const b = pop(index);
+                  const a = pop(index);
+                  switch (token.value) {
+                      case '+': res = addQuantities(a, b); break;
+                      case '-': res = subtractQuantities(a, b); break;
+                      case '×': res = multiplyQuantities(a, b); break;
+                      case '÷': res = divideQuantities(a, b); break;
+                      case '^': res = powerQuantity(a, b); break;
+                      case 'ⁿ√': res = rootQuantity(a, b); break;
+                      default: throw new CalculationError('invalidExpression');
+                  }
               }
-              evalStack.push(res);
+          } catch (e) {
+              throw CalculationError.from(e, index);
+          }
+          if (res.value.integerDigits() > MAX_RESULT_DIGITS) {
+              throw new CalculationError('overflow', undefined, index);
           }
+          if (res.value.fractionDigits() > MAX_RESULT_SCALE) res = { ...res, value: res.value.round(MAX_RESULT_SCALE) };
+          evalStack.push({ quantity: res, index, percent });
       });
       
-      if (evalStack.length === 0) return 0;
-      return evalStack[0];
+      if (evalStack.length === 0) return { value: Decimal.ZERO, unit: {} };
+      if (evalStack.length > 1) {
+          // Two values with nothing combining them
+          throw new CalculationError('invalidExpression', undefined, evalStack[1].index);
+      }
+      return pop(evalStack[0].index);
   }
 
   public clear(): void {
-    this.currentValue = '0';
-    this.currentLabel = null;
-    this.currentUnit = null;
-    this.previousValue = null;
-    this.previousLabel = null;
-    this.previousUnit = null;
-    this.operation = null;
-    this.shouldResetScreen = false;
-    this.lastExpressionTokens = null;
-    this.inputHistory = [];
-    this.isIntermediateResult = false;
-    this.currentColor = null;
-    this.previousColor = null;
+    this.runAction(() => {
+      this.error = null;
+      this.currentValue = '0';
+      this.currentLabel = null;
+      this.currentUnit = null;
+      this.previousValue = null;
+      this.previousLabel = null;
+      this.previousUnit = null;
+      this.operation = null;
+      this.shouldResetScreen = false;
+      this.lastExpressionTokens = null;
+      this.inputHistory = [];
+      this.isIntermediateResult = false;
+      this.currentColor = null;
+      this.currentVariableId = null;
+      this.previousColor = null;
+    });
   }
 
   public delete(): void {
-      if (this.shouldResetScreen) return;
-      if (this.currentValue.length === 1) {
-          this.currentValue = '0';
-      } else {
-          this.currentValue = this.currentValue.slice(0, -1);
-      }
+      this.runAction(() => {
+        this.error = null;
+        if (this.shouldResetScreen) return;
+        this.currentVariableId = null;
+        if (this.currentValue.length === 1) {
+            this.currentValue = '0';
+        } else {
+            this.currentValue = this.currentValue.slice(0, -1);
+        }
+      });
   }
 
   public toggleSign(): void {
-      const value = parseFloat(this.currentValue);
-      if (value === 0) return;
-      this.currentValue = (value * -1).toString();
+      this.runAction(() => {
+        this.error = null;
+        if (!Decimal.isValid(this.currentValue)) return;
+        const value = Decimal.from(this.currentValue);
+        if (value.isZero()) return;
+        this.currentValue = value.negated().toString();
+        this.currentVariableId = null;
+      });
   }
 
+  // Business percent: 2000 + 10% = 2200, 2000 × 10% = 200, 50 ÷ 200% = 25 (see percent.ts)
   public percentage(): void {
-      const value = parseFloat(this.currentValue);
-      this.currentValue = (value / 100).toString();
+      this.runAction(() => {
+        this.inputPostfix({ type: 'postfix', value: '%' });
+      });
+  }
+
+  // Adds (税込) or removes (税抜) consumption tax at the configured rate
+  public inputTax(op: TaxOperator): void {
+      this.runAction(() => {
+        this.inputPostfix({ type: 'postfix', value: op, rate: this.settings.tax.rate });
+      });
+  }
+
+  // Postfix operators apply to the value just entered, or to the previous result
+  private inputPostfix(token: ExpressionToken): void {
+      this.error = null;
+      if (!this.shouldResetScreen || this.inputHistory.length === 0) {
+          this.pushCurrentValueToHistory();
+      } else if (!endsValue(this.inputHistory[this.inputHistory.length - 1])) {
+          return; // Nothing to apply it to yet ("2 + %")
+      }
+      this.inputHistory.push(token);
+      this.shouldResetScreen = true;
+      this.currentLabel = null;
+      this.currentUnit = null;
+      this.currentColor = null;
+      this.currentVariableId = null;
   }
 
   public setLabel(target: 'current' | 'previous', label: string, color?: VariableColor | null): void {
-      // Logic adaptation: 'previous' is now ambiguous with history, but usually implies the last entered operand.
-      // 'current' is the one being typed.
+      this.runAction(() => {
+        this.error = null;
+        // Logic adaptation: 'previous' is now ambiguous with history, but usually implies the last entered operand.
+        // 'current' is the one being typed.
       
-      if (target === 'current') {
-          this.currentLabel = label;
-          if (color !== undefined) this.currentColor = color;
-      } else {
-          // Find last operand in inputHistory
-           if (this.inputHistory.length > 0) {
-              for (let i = this.inputHistory.length - 1; i >= 0; i--) {
-                  if (this.inputHistory[i].type === 'operand') {
-                      this.inputHistory[i].label = label;
-                      this.inputHistory[i].nameLabel = this.formatNameLabel(label, this.inputHistory[i].unit || null);
-                      if (color !== undefined) this.inputHistory[i].color = color || undefined;
-                      break;
-                  }
-              }
-           }
-      }
+        if (target === 'current') {
+            this.currentLabel = label;
+            if (color !== undefined) this.currentColor = color;
+        } else {
+            // Find last operand in inputHistory
+             if (this.inputHistory.length > 0) {
+                for (let i = this.inputHistory.length - 1; i >= 0; i--) {
+                    if (this.inputHistory[i].type === 'operand') {
+                        this.inputHistory[i].label = label;
+                        this.inputHistory[i].nameLabel = this.formatNameLabel(label, this.inputHistory[i].unit || null);
+                        if (color !== undefined) this.inputHistory[i].color = color || undefined;
+                        break;
+                    }
+                }
+             }
+        }
+      });
   }
 
   public setUnit(target: 'current' | 'previous', unit: string | null): void {
-      if (target === 'current') {
-          this.currentUnit = unit;
+      this.runAction(() => {
+        this.error = null;
+        if (target === 'current') {
+            this.currentUnit = unit;
+        } else {
+            if (this.inputHistory.length > 0) {
+                 for (let i = this.inputHistory.length - 1; i >= 0; i--) {
+                    if (this.inputHistory[i].type === 'operand') {
+                        this.inputHistory[i].unit = unit || undefined;
+                        this.inputHistory[i].numberLabel = this.formatNumberLabel(this.inputHistory[i].value, unit);
+                        this.inputHistory[i].nameLabel = this.formatNameLabel(this.inputHistory[i].label || null, unit);
+                        break;
+                    }
+                }
+            }
+        }
+      });
+  }
+
+  // Replaces the current expression with one parsed from text (paste-to-calculate).
+  // The last operand goes back into the input buffer so typing can continue naturally.
+  public pasteExpression(text: string): void {
+      this.runAction(() => {
+        const tokens = parseExpression(text, { variables: this.variables, history: this.history, taxRate: this.settings.tax.rate }).map(t => this.decorateToken(t));
+        if (tokens.length === 0) return;
+
+        this.clear();
+        this.inputHistory = tokens;
+        this.restoreTrailingOperand();
+        const lastOp = [...tokens].reverse().find(t => t.type === 'operator');
+        this.operation = lastOp ? lastOp.value as Operation : null;
+      });
+  }
+
+  // Moves a trailing operand from inputHistory back into the input buffer so typing can continue
+  private restoreTrailingOperand(): void {
+      const last = this.inputHistory[this.inputHistory.length - 1];
+      if (last && last.type === 'operand') {
+          this.inputHistory.pop();
+          this.currentValue = last.value;
+          this.currentLabel = last.label || null;
+          this.currentUnit = last.unit || null;
+          this.currentColor = last.color || null;
+          this.currentVariableId = last.variableId || null;
+          this.shouldResetScreen = false;
       } else {
-          if (this.inputHistory.length > 0) {
-               for (let i = this.inputHistory.length - 1; i >= 0; i--) {
-                  if (this.inputHistory[i].type === 'operand') {
-                      this.inputHistory[i].unit = unit || undefined;
-                      this.inputHistory[i].numberLabel = this.formatNumberLabel(this.inputHistory[i].value, unit);
-                      this.inputHistory[i].nameLabel = this.formatNameLabel(this.inputHistory[i].label || null, unit);
-                      break;
-                  }
-              }
-          }
+          this.shouldResetScreen = true;
       }
   }
 
-  public loadFromHistory(index: number): void {
+  public getExpressionText(): string {
+      return serializeExpression(this.buildExpressionTokens());
+  }
+
+  public getHistoryItemText(index: number): string {
       const item = this.history[index];
-      if (!item) return;
-      
-      this.clear();
-      this.inputHistory = item.expressionTokens.map(t => ({...t}));
-      this.currentValue = item.result;
-      this.shouldResetScreen = true;
+      if (!item) return '';
+      const result = item.unit ? `${item.result}${item.unit}` : item.result;
+      return `${serializeExpression(item.expressionTokens)} = ${result}`;
   }
 
-  public getDisplayValue(): string {
-    return this.formatNumber(this.currentValue);
+  // Adds display labels to a bare (parsed) operand or Ans token
+  private decorateToken(token: ExpressionToken): ExpressionToken {
+      if (token.type !== 'operand' && token.type !== 'ans') return token;
+      return {
+          ...token,
+          numberLabel: this.formatNumberLabel(token.value, token.unit || null),
+          nameLabel: this.formatNameLabel(token.label || null, token.unit || null)
+      };
   }
 
-  private formatNumber(value: string | null): string {
-      if (!value) return '';
-      if (value.includes('e') || value.includes('E')) return value;
-      const parts = value.split('.');
-      parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-      return parts.join('.');
+  public loadFromHistory(index: number): void {
+      this.runAction(() => {
+        const item = this.history[index];
+        if (!item) return;
+      
+        this.clear();
+        this.inputHistory = item.expressionTokens.map(t => ({...t}));
+        this.currentValue = item.result;
+        this.currentUnit = item.unit || null;
+        this.shouldResetScreen = true;
+      });
+  }
+
+  public getDisplayValue(): string {
+    // A number being typed keeps its digits; fixed decimals apply to results only
+    return formatNumber(this.currentValue, this.settings.format, this.shouldResetScreen);
   }
 
-  private formatNumberLabel(value: string, unit: string | null): string {
-      const formattedValue = this.formatNumber(value);
-      return unit ? `${formattedValue} ${unit}` : formattedValue;
+  private formatNumberLabel(value: string, unit: string | null, isResult: boolean = true): string {
+      return formatQuantity(value, unit, this.settings.format, isResult);
   }
 
   private formatNameLabel(label: string | null, unit: string | null): string | undefined {
@@ -386,6 +1120,11 @@ export class Calculator {
       return label; // Don't include unit in name label
   }
 
+  // Label of the value on the display (typed-in label, variable name or derived result name)
+  public getCurrentLabel(): string | null {
+      return this.currentLabel;
+  }
+
   public getCurrentUnit(): string | null {
       return this.currentUnit;
   }
@@ -400,56 +1139,612 @@ export class Calculator {
 
   // Returns structured tokens for rendering
   public getExpressionTokens(): ExpressionToken[] {
+      this.ensureTokenIds();
       const tokens = this.buildExpressionTokens(false);
+      // Ghost ')' for every group calculate() would close automatically
+      for (let i = 0; i < this.getOpenParenthesisDepth(); i++) {
+          tokens.push({ type: 'parenthesis', value: ')', ghost: true });
+      }
       
-      // Ensure all operands have an ID for clickability
       return tokens.map((t, i) => {
-          if (t.type === 'operand' && !t.id) {
-              return { ...t, id: `token-${i}` };
+          // Labels follow the current number format; the number being typed is shown as entered
+          let token = t.type === 'operand' || t.type === 'ans'
+              ? { ...t, numberLabel: this.formatNumberLabel(t.value, t.unit || null, !(t.id === 'current' && !this.shouldResetScreen)) }
+              : t;
+          if (t.type === 'parenthesis' && t.value === ')' && !t.ghost) {
+              const subtotal = this.calculateGroup(tokens, i);
+              if (subtotal) token = { ...token, subtotal: this.formatNumberLabel(subtotal.value, subtotal.unit) };
           }
-          return t;
+          return this.error && this.error.tokenIndex === i ? { ...token, hasError: true } : token;
+      });
+  }
+
+  // Subtotal of the group closed at `closeIndex`, including the function applied to it (sin(…))
+  private calculateGroup(tokens: ExpressionToken[], closeIndex: number): PreviewResult | null {
+      const open = this.findMatchingParen(tokens, closeIndex);
+      if (open < 0) return null;
+      const start = open > 0 && tokens[open - 1].type === 'function' ? open - 1 : open;
+      return this.calculateIntermediate(tokens.slice(start, closeIndex + 1));
+  }
+
+  // Committed tokens get their id once, so it stays valid while the expression is edited
+  private ensureTokenIds(): void {
+      this.inputHistory.forEach(t => {
+          if (!t.id) t.id = createId('tok');
+      });
+  }
+
+  // --- Token-addressed editing ---
+
+  // Changes value/label/unit/color of any operand by id. Editing the value unlinks it from its variable.
+  public updateToken(id: string, changes: TokenChanges): void {
+      this.runAction(() => {
+        this.error = null;
+        if (changes.value !== undefined && !Decimal.isValid(changes.value)) return;
+
+        if (id === 'current') {
+            if (changes.value !== undefined && changes.value !== this.currentValue) {
+                this.currentValue = changes.value;
+                this.currentVariableId = null;
+            }
+            if (changes.label !== undefined) this.currentLabel = changes.label || null;
+            if (changes.unit !== undefined) this.currentUnit = changes.unit || null;
+            if (changes.color !== undefined) this.currentColor = changes.color || null;
+            if (changes.variableId !== undefined) this.currentVariableId = changes.variableId || null;
+            return;
+        }
+
+        this.editExpression(tokens => tokens.map(t => {
+            if (t.id !== id || t.type !== 'operand') return t;
+            const updated: ExpressionToken = { ...t };
+            if (changes.value !== undefined && changes.value !== t.value) {
+                updated.value = changes.value;
+                updated.variableId = undefined;
+            }
+            if (changes.label !== undefined) updated.label = changes.label || undefined;
+            if (changes.unit !== undefined) updated.unit = changes.unit || undefined;
+            if (changes.color !== undefined) updated.color = changes.color || undefined;
+            if (changes.variableId !== undefined) updated.variableId = changes.variableId || undefined;
+            return this.decorateToken(updated);
+        }), id);
+      });
+  }
+
+  // Removes a token. Operands take an adjacent operator with them (a + b + c -> a + c);
+  // a parenthesis or function removes its whole group the same way (2 × (3 + 4) + 1 -> 2 + 1).
+  public deleteToken(id: string): void {
+      this.runAction(() => {
+        this.error = null;
+        this.editExpression((tokens, targetId) => {
+            const index = tokens.findIndex(t => t.id === targetId);
+            if (index < 0) return tokens;
+            const target = tokens[index];
+            const remove = new Set<number>([index]);
+
+            // Removes tokens start..end as one value, together with the operator joining it to the rest
+            const removeValue = (start: number, end: number) => {
+                for (let i = start; i <= end; i++) remove.add(i);
+                // Postfix operators go with the value they apply to
+                let after = end + 1;
+                while (tokens[after] && tokens[after].type === 'postfix') remove.add(after++);
+                let before = start - 1;
+                if (before >= 0 && isUnaryAt(tokens, before)) remove.add(before--);
+                if (before >= 0 && tokens[before].type === 'operator') {
+                    remove.add(before);
+                } else if (tokens[after] && tokens[after].type === 'operator') {
+                    remove.add(after);
+                }
+            };
+
+            if (target.type === 'operand' || target.type === 'constant' || target.type === 'ans') {
+                removeValue(index, index);
+            } else if (target.type === 'function' || target.type === 'parenthesis') {
+                // A group goes with its contents: dropping only the brackets of "2 × (3 + 4)" would change the result
+                const open = target.type === 'function' ? index + 1 : target.value === '(' ? index : this.findMatchingParen(tokens, index);
+                if (open >= 0) {
+                    const close = this.findMatchingParen(tokens, open);
+                    const start = open > 0 && tokens[open - 1].type === 'function' ? open - 1 : open;
+                    removeValue(start, close >= 0 ? close : tokens.length - 1); // An open group runs to the end
+                }
+            }
+            return tokens.filter((_, i) => !remove.has(i));
+        }, id);
       });
   }
 
+  // Inserts `operand` next to the token, joined by `op` (before: "x op target", after: "target op x").
+  // Returns the id of the new operand.
+  public insertOperand(id: string, position: 'before' | 'after', operand: TokenChanges & { value: string }, op: Operation = '+'): string | null {
+      return this.runAction(() => {
+        this.error = null;
+        if (!Decimal.isValid(operand.value)) return null;
+        const newToken = this.decorateToken({
+            type: 'operand',
+            value: operand.value,
+            label: operand.label || undefined,
+            unit: operand.unit || undefined,
+            color: operand.color || undefined,
+            variableId: operand.variableId || undefined,
+            id: createId('tok')
+        });
+        const operator: ExpressionToken = { type: 'operator', value: op, id: createId('tok') };
+
+        let inserted = false;
+        this.editExpression((tokens, targetId) => {
+            const index = tokens.findIndex(t => t.id === targetId);
+            if (index < 0) return tokens;
+            inserted = true;
+            const result = [...tokens];
+            if (position === 'before') result.splice(index, 0, newToken, operator);
+            else result.splice(index + 1, 0, operator, newToken);
+            return result;
+        }, id);
+        return inserted ? newToken.id! : null;
+      });
+  }
+
+  private findMatchingParen(tokens: ExpressionToken[], index: number): number {
+      const step = tokens[index].value === '(' ? 1 : -1;
+      let depth = 0;
+      for (let i = index; i >= 0 && i < tokens.length; i += step) {
+          if (tokens[i].type !== 'parenthesis') continue;
+          depth += tokens[i].value === tokens[index].value ? 1 : -1;
+          if (depth === 0) return i;
+      }
+      return -1;
+  }
+
+  // Applies a structural edit to the whole expression including the input buffer.
+  // The buffer is committed first (so 'current' can be addressed) and restored afterwards;
+  // an expression loaded from history gets its result recomputed.
+  private editExpression(edit: (tokens: ExpressionToken[], targetId: string) => ExpressionToken[], targetId: string): void {
+      const hadBuffer = !this.shouldResetScreen;
+      const last = this.inputHistory[this.inputHistory.length - 1];
+      const isLoadedResult = !hadBuffer && !!last && last.type === 'operand';
+
+      this.ensureTokenIds();
+      let resolvedId = targetId;
+      if (hadBuffer) {
+          this.pushCurrentValueToHistory();
+          const buffer = this.inputHistory[this.inputHistory.length - 1];
+          buffer.id = createId('tok');
+          if (targetId === 'current') resolvedId = buffer.id;
+      }
+
+      this.inputHistory = edit(this.inputHistory, resolvedId);
+
+      if (isLoadedResult) {
+          this.refreshResult();
+      } else {
+          this.restoreTrailingOperand();
+      }
+      // Nothing left: start again from 0 instead of showing (and computing with) a deleted value
+      if (this.inputHistory.length === 0 && this.shouldResetScreen) {
+          this.currentValue = '0';
+          this.currentLabel = null;
+          this.currentUnit = null;
+          this.currentColor = null;
+          this.currentVariableId = null;
+          this.shouldResetScreen = false;
+          this.isIntermediateResult = false;
+      }
+  }
+
+  // Re-evaluates the expression on screen (without recording history) after it was edited
+  private refreshResult(): void {
+      const closers: ExpressionToken[] = Array.from({ length: this.getOpenParenthesisDepth() }, () => ({ type: 'parenthesis', value: ')' }));
+      try {
+          const result = this.evaluateExpression([...this.inputHistory, ...closers]);
+          this.currentUnit = formatUnit(result.unit);
+          this.currentValue = shortenResult(this.roundForUnit(result.value, this.currentUnit));
+      } catch (e) {
+          this.error = CalculationError.from(e).toInfo();
+      }
+  }
+
   public getHistory(): HistoryItem[] {
       return this.history;
   }
 
   // Variable Management
-  public saveVariable(label: string, value: string, unit?: string, color?: VariableColor): void {
-      const existingIndex = this.variables.findIndex(v => v.label === label);
-      const newVar: SavedVariable = {
-          label,
-          value,
-          unit,
-          timestamp: Date.now(),
-          color
+  // Updates the variable with the given id (allows renaming), else the one with the same label, else creates one.
+  // Operands linked to the variable and formula variables using it pick up the new value immediately.
+  // Saving a value turns a formula variable into a plain one.
+  public saveVariable(label: string, value: string, unit?: string, color?: VariableColor, id?: string): SavedVariable {
+      return this.runAction(() => {
+        // Saved values follow the rounding policy of their unit, like calculated results
+        const rule = resolveRoundingRule(this.settings.rounding, unit || null);
+        const storedValue = rule && Decimal.isValid(value) ? applyRounding(Decimal.from(value), rule).toString() : value;
+        let existingIndex = id ? this.variables.findIndex(v => v.id === id) : -1;
+        if (existingIndex < 0) existingIndex = this.variables.findIndex(v => v.label === label);
+        const newVar: SavedVariable = {
+            id: existingIndex >= 0 ? this.variables[existingIndex].id : createId('var'),
+            label,
+            value: storedValue,
+            unit,
+            timestamp: Date.now(),
+            color
+        };
+
+        this.variables = (existingIndex >= 0 ? this.variables.map((v, i) => i === existingIndex ? newVar : v) : [...this.variables, newVar])
+          .sort((a, b) => b.timestamp - a.timestamp);
+        this.syncLinkedOperands(newVar);
+        this.recomputeDependents(newVar.id);
+        this.persist();
+        return newVar;
+      });
+  }
+
+  // Saves a variable computed from other variables ("売価 − 原価"); same id/label matching as saveVariable.
+  // Throws ExpressionParseError for unreadable formulas, FormulaError when the formula would depend on itself,
+  // and CalculationError when it cannot be evaluated.
+  public saveFormulaVariable(label: string, formula: string, color?: VariableColor, id?: string): SavedVariable {
+      return this.runAction(() => {
+        let existingIndex = id ? this.variables.findIndex(v => v.id === id) : -1;
+        if (existingIndex < 0) existingIndex = this.variables.findIndex(v => v.label === label);
+        const varId = existingIndex >= 0 ? this.variables[existingIndex].id : createId('var');
+
+        const tokens = parseExpression(formula, { variables: this.variables, taxRate: this.settings.tax.rate });
+        const cycle = findCycle(this.variables, varId, getDependencies({ formula: tokens }));
+        if (cycle) throw new FormulaError('cycle', cycle, `Circular reference: ${cycle.join(' → ')}`);
+
+        const { value, unit } = this.evaluateFormula(tokens);
+        const newVar: SavedVariable = { id: varId, label, value, unit, timestamp: Date.now(), color, formula: tokens };
+        this.variables = (existingIndex >= 0 ? this.variables.map((v, i) => i === existingIndex ? newVar : v) : [...this.variables, newVar])
+          .sort((a, b) => b.timestamp - a.timestamp);
+        this.syncLinkedOperands(newVar);
+        this.recomputeDependents(newVar.id);
+        this.persist();
+        return newVar;
+      });
+  }
+
+  // Formula evaluated with the current values of the variables it uses. Only the rounding setting applies:
+  // the value is kept with all its digits so formulas built on it do not accumulate display rounding
+  private evaluateFormula(tokens: ExpressionToken[]): { value: string, unit?: string } {
+      const result = this.evaluateExpression(tokens.map(t => this.resolveLinkedToken(t)));
+      const unit = formatUnit(result.unit);
+      return { value: this.roundForUnit(result.value, unit).toString(), unit: unit || undefined };
+  }
+
+  // Brings formula variables using `id` up to date, in dependency order.
+  // A formula that fails (e.g. a divisor became 0) keeps its last value; see getFormulaError.
+  private recomputeDependents(id: string): void {
+      getDependentsInOrder(this.variables, id).forEach(dependent => {
+          let result: { value: string, unit?: string };
+          try {
+              result = this.evaluateFormula(dependent.formula ?? []);
+          } catch {
+              return;
+          }
+          const updated: SavedVariable = { ...dependent, ...result };
+          this.variables = this.variables.map(v => v.id === dependent.id ? updated : v);
+          this.syncLinkedOperands(updated);
+      });
+  }
+
+  // Formula as text with the current labels of the variables it uses ("" for plain variables)
+  public getFormulaText(variable: SavedVariable): string {
+      return getFormulaText(variable, this.variables);
+  }
+
+  // Why a formula variable's value could not be brought up to date, or null
+  public getFormulaError(variable: SavedVariable): CalculationErrorInfo | null {
+      if (!variable.formula) return null;
+      try {
+          this.evaluateFormula(variable.formula);
+          return null;
+      } catch (e) {
+          return CalculationError.from(e).toInfo();
+      }
+  }
+
+  // Formula variables using the given one directly
+  public getVariableDependents(id: string): SavedVariable[] {
+      return getDirectDependents(this.variables, id);
+  }
+
+  public getVariable(id: string): SavedVariable | undefined {
+      return this.variables.find(v => v.id === id);
+  }
+
+  private applyVariableToToken(token: ExpressionToken, variable: SavedVariable): ExpressionToken {
+      const unit = variable.unit || null;
+      return {
+          ...token,
+          value: variable.value,
+          label: variable.label,
+          unit: variable.unit,
+          color: variable.color,
+          numberLabel: this.formatNumberLabel(variable.value, unit),
+          nameLabel: this.formatNameLabel(variable.label, unit),
+          variableId: variable.id
       };
+  }
 
-      if (existingIndex >= 0) {
-          this.variables[existingIndex] = newVar;
-      } else {
-          this.variables.push(newVar);
+  private syncLinkedOperands(variable: SavedVariable): void {
+      this.inputHistory = this.inputHistory.map(t => t.variableId === variable.id ? this.applyVariableToToken(t, variable) : t);
+      if (this.currentVariableId === variable.id && !this.shouldResetScreen) {
+          this.currentValue = variable.value;
+          this.currentLabel = variable.label;
+          this.currentUnit = variable.unit || null;
+          this.currentColor = variable.color || null;
       }
-      this.variables.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Linked tokens resolve to the variable's current value; deleted variables keep the recorded value
+  private resolveLinkedToken(token: ExpressionToken): ExpressionToken {
+      const variable = token.variableId ? this.getVariable(token.variableId) : undefined;
+      return variable ? this.applyVariableToToken(token, variable) : { ...token };
+  }
+
+  // True when a variable used by the history entry has changed since it was calculated
+  public isHistoryItemStale(index: number): boolean {
+      const item = this.history[index];
+      if (!item) return false;
+      return item.expressionTokens.some(t => {
+          const variable = t.variableId ? this.getVariable(t.variableId) : undefined;
+          return !!variable && (variable.value !== t.value || (variable.unit || undefined) !== t.unit);
+      });
+  }
+
+  // Re-evaluates a history entry with the current values of its linked variables (recorded as a new entry)
+  public recalculateHistoryItem(index: number): void {
+      this.runAction(() => {
+        const item = this.history[index];
+        if (!item) return;
+
+        this.clear();
+        this.inputHistory = item.expressionTokens.map(t => this.resolveLinkedToken(t));
+        this.shouldResetScreen = true;
+        this.calculate();
+      });
   }
 
   public getVariables(): SavedVariable[] {
       return this.variables;
   }
 
+  // Applies a previewed import (see importers.ts) as a single undo step; returns the number of variables written
+  public importVariables(plan: ImportPlanEntry[]): number {
+      return this.runAction(() => {
+        const applied = plan.filter(entry => entry.action !== 'skip');
+        applied.forEach(entry => {
+            // Overwriting keeps the variable's id (linked operands follow) and its color unless the row sets one
+            const id = entry.action === 'overwrite' ? entry.existing?.id : undefined;
+            const color = entry.color ?? (entry.action === 'overwrite' ? entry.existing?.color : undefined);
+            this.saveVariable(entry.targetLabel, entry.value, entry.unit, color, id);
+        });
+        return applied.length;
+      });
+  }
+
+  // Throws FormulaError when formula variables still use the variable
   public deleteVariable(label: string): void {
-      this.variables = this.variables.filter(v => v.label !== label);
+      const variable = this.variables.find(v => v.label === label);
+      const dependents = variable ? getDirectDependents(this.variables, variable.id).map(v => v.label) : [];
+      if (dependents.length > 0) {
+          throw new FormulaError('inUse', dependents, `${label} is used by ${dependents.join(', ')}`);
+      }
+      this.runAction(() => {
+        this.variables = this.variables.filter(v => v.label !== label);
+        this.persist();
+      });
+  }
+
+  // --- Memory registers ---
+
+  public getMemory(): MemoryRegister[] {
+      return this.memory;
+  }
+
+  public getMemoryRegister(name: string): MemoryRegister | undefined {
+      return this.memory.find(m => m.name === name);
+  }
+
+  // M+ / M−: finishes a pending expression first (recorded in history like "="), then adds
+  // or subtracts the value on screen. The register is created on first use.
+  public memoryAdd(name: string = DEFAULT_MEMORY_REGISTER): void {
+      this.runAction(() => this.accumulateMemory(name, 1));
+  }
+
+  public memorySubtract(name: string = DEFAULT_MEMORY_REGISTER): void {
+      this.runAction(() => this.accumulateMemory(name, -1));
+  }
+
+  private accumulateMemory(name: string, sign: 1 | -1): void {
+      this.error = null;
+      if (this.inputHistory.length > 0) {
+          this.calculate();
+          if (this.error) return;
+      }
+      if (!Decimal.isValid(this.currentValue)) return;
+
+      const register = this.getMemoryRegister(name);
+      const stored: Quantity = register ? { value: Decimal.from(register.value), unit: parseUnit(register.unit) } : { value: Decimal.ZERO, unit: {} };
+      const operand: Quantity = { value: Decimal.from(this.currentValue), unit: parseUnit(this.currentUnit) };
+      try {
+          const total = sign === 1 ? addQuantities(stored, operand) : subtractQuantities(stored, operand);
+          const next: MemoryRegister = { name, value: total.value.toString(), unit: formatUnit(total.unit) || undefined };
+          this.memory = register ? this.memory.map(m => m === register ? next : m) : [...this.memory, next];
+      } catch (e) {
+          this.error = CalculationError.from(e).toInfo();
+          return;
+      }
+      this.shouldResetScreen = true; // The next digit starts a new number
+      this.persist();
+  }
+
+  // MR: puts the register's total into the input buffer, labelled with the register name
+  public memoryRecall(name: string = DEFAULT_MEMORY_REGISTER): void {
+      this.runAction(() => {
+        const register = this.getMemoryRegister(name);
+        if (!register) return;
+        this.error = null;
+        if (this.shouldResetScreen) this.insertImplicitMultiplication();
+        this.currentValue = register.value;
+        this.currentLabel = register.name;
+        this.currentUnit = register.unit || null;
+        this.currentColor = null;
+        this.currentVariableId = null;
+        this.shouldResetScreen = false;
+        this.isIntermediateResult = false;
+      });
+  }
+
+  // MC: removes the register
+  public memoryClear(name: string = DEFAULT_MEMORY_REGISTER): void {
+      this.runAction(() => {
+        this.memory = this.memory.filter(m => m.name !== name);
+        this.persist();
+      });
+  }
+
+  // --- Calculation sheet ---
+
+  // Lines with their results (recomputed top to bottom, see sheet.ts) and the grand total
+  public getSheet(): SheetResult {
+      return evaluateSheet(this.sheet, {
+          variables: this.variables,
+          taxRate: this.settings.tax.rate,
+          evaluate: tokens => {
+              const result = this.evaluateExpression(tokens);
+              const unit = formatUnit(result.unit);
+              return { value: this.roundForUnit(result.value, unit).toString(), unit };
+          }
+      });
+  }
+
+  // Inserts a line after `afterId` (or at the end); returns the new line's id
+  public addSheetLine(line: SheetLineChanges = {}, afterId?: string): string {
+      return this.runAction(() => {
+        const newLine: SheetLine = { id: createId('line'), label: line.label?.trim() ?? '', text: line.text ?? '' };
+        const index = afterId ? this.sheet.findIndex(l => l.id === afterId) : -1;
+        this.sheet = index >= 0 ? [...this.sheet.slice(0, index + 1), newLine, ...this.sheet.slice(index + 1)] : [...this.sheet, newLine];
+        this.persist();
+        return newLine.id;
+      });
+  }
+
+  public updateSheetLine(id: string, changes: SheetLineChanges): void {
+      this.runAction(() => {
+        this.sheet = this.sheet.map(l => l.id !== id ? l : {
+            ...l,
+            label: changes.label !== undefined ? changes.label.trim() : l.label,
+            text: changes.text ?? l.text
+        });
+        this.persist();
+      });
+  }
+
+  // Lines that referred to the removed line show an error until they are fixed
+  public removeSheetLine(id: string): void {
+      this.runAction(() => {
+        this.sheet = this.sheet.filter(l => l.id !== id);
+        this.persist();
+      });
+  }
+
+  public clearSheet(): void {
+      this.runAction(() => {
+        this.sheet = [];
+        this.persist();
+      });
+  }
+
+  // --- Goal seek ---
+
+  // Finds the value of operand `tokenId` for which the expression equals `target` (in the result's unit; see solver.ts).
+  // A unique solution is substituted into the expression; with several, the caller picks one (updateToken).
+  // Throws CalculationError for an invalid target or a token that is not an operand of the expression.
+  public goalSeek(tokenId: string, target: string): GoalSeekResult {
+      const tokens = this.buildExpressionTokens();
+      const closers: ExpressionToken[] = Array.from({ length: countOpenGroups(tokens) }, () => ({ type: 'parenthesis', value: ')' }));
+      const expression = [...tokens, ...closers];
+      const index = expression.findIndex(t => t.id === tokenId);
+      const unknown = expression[index];
+      if (!unknown || unknown.type !== 'operand') throw new CalculationError('invalidExpression', 'Not an operand of the expression');
+      if (!Decimal.isValid(target)) throw new CalculationError('invalidExpression', `Invalid target: ${target}`);
+
+      const f = (x: Decimal) => this.evaluateExpression(expression.map((t, i) => i === index ? { ...t, value: x.toString() } : t)).value;
+      const result = solve(f, Decimal.from(target), Decimal.from(unknown.value));
+      const format = (value: Decimal) => shortenResult(this.roundForUnit(value, unknown.unit || null));
+
+      switch (result.kind) {
+        case 'solved': {
+          const value = format(result.value);
+          this.updateToken(tokenId, { value });
+          return { kind: 'solved', value };
+        }
+        case 'multiple':
+          return { kind: 'multiple', values: Array.from(new Set(result.values.map(format))) };
+        default:
+          return result;
+      }
+  }
+
+  // --- Formula templates ---
+
+  public getTemplates(): FormulaTemplate[] {
+      return this.templates;
+  }
+
+  // Saves the history entry at `historyIndex`, or else the current expression, as a template (see templates.ts).
+  // A blank name is replaced by the expression's structure; an existing template with the same name is replaced.
+  // Returns null when there is nothing to save.
+  public saveTemplate(name: string, historyIndex?: number): FormulaTemplate | null {
+      return this.runAction(() => {
+        const source = historyIndex !== undefined ? this.history[historyIndex]?.expressionTokens : this.buildExpressionTokens();
+        if (!source || !source.some(t => t.type === 'operand' || t.type === 'ans')) return null;
+
+        const closers: ExpressionToken[] = Array.from({ length: countOpenGroups(source) }, () => ({ type: 'parenthesis', value: ')' }));
+        const existing = this.templates.find(t => t.name === name.trim());
+        const template = createTemplate(existing?.id ?? createId('tpl'), name, [...source, ...closers]);
+        this.templates = [template, ...this.templates.filter(t => t.id !== template.id && t.name !== template.name)];
+        this.persist();
+        return template;
+      });
+  }
+
+  public deleteTemplate(id: string): void {
+      this.runAction(() => {
+        this.templates = this.templates.filter(t => t.id !== id);
+        this.persist();
+      });
+  }
+
+  // Values the parameter prompts start with (matching saved variables, else the saved values)
+  public getTemplateDefaults(id: string): string[] {
+      const template = this.templates.find(t => t.id === id);
+      return template ? getParameterDefaults(template, this.variables) : [];
+  }
+
+  // Evaluates the template with the given parameter values and records the result in history.
+  // Throws CalculationError when a value is not a number.
+  public runTemplate(id: string, values: string[]): void {
+      this.runAction(() => {
+        const template = this.templates.find(t => t.id === id);
+        if (!template) return;
+        const tokens = applyTemplate(template, values, this.variables).map(t => this.decorateToken(t));
+
+        this.clear();
+        this.inputHistory = tokens;
+        this.shouldResetScreen = true;
+        this.calculate();
+      });
   }
 
   public inputVariable(variable: SavedVariable): void {
-      this.inputDigit(variable.value); 
+      this.runAction(() => {
+        this.inputDigit(variable.value); 
       
-      this.currentValue = variable.value;
-      this.currentLabel = variable.label;
-      this.currentUnit = variable.unit || null;
-      this.currentColor = variable.color || null;
-      this.shouldResetScreen = false; 
+        this.currentValue = variable.value;
+        this.currentLabel = variable.label;
+        this.currentUnit = variable.unit || null;
+        this.currentColor = variable.color || null;
+        this.currentVariableId = variable.id;
+        this.shouldResetScreen = false; 
+      });
   }
 
   private buildExpressionTokens(forHistory: boolean = false): ExpressionToken[] {
@@ -469,6 +1764,7 @@ export class Calculator {
               numberLabel: this.formatNumberLabel(this.currentValue, this.currentUnit),
               nameLabel: this.formatNameLabel(this.currentLabel, this.currentUnit),
               color: this.currentColor || undefined,
+              variableId: this.currentVariableId || undefined,
               id: 'current'
           });
       }
@@ -476,19 +1772,57 @@ export class Calculator {
       return tokens;
   }
 
-  private handleError(): void {
-      this.currentValue = 'Error';
-      this.previousValue = null;
-      this.operation = null;
-      this.shouldResetScreen = true;
-      this.inputHistory = [];
+  // Keeps the expression (and puts the typed value back into the buffer) so the user can fix it
+  private handleError(error: unknown, restoreBuffer: boolean): void {
+      this.error = CalculationError.from(error).toInfo();
+      if (restoreBuffer) {
+          this.restoreTrailingOperand();
+      }
   }
 
-  private formatResult(num: number): string {
-      const str = num.toString();
-      if (str.length > 12) {
-          return num.toExponential(6);
-      }
-      return str;
+  public getError(): CalculationErrorInfo | null {
+      return this.error;
+  }
+
+  // --- Settings ---
+
+  public getSettings(): CalculatorSettings {
+      return this.settings;
+  }
+
+  // All settings at once, as saved from the settings dialog: one undo step, one change event, one write
+  public setSettings(settings: CalculatorSettings): void {
+      this.runAction(() => {
+        this.settings = { ...settings };
+        this.persist();
+      });
+  }
+
+  // Applies to results calculated and variables saved from now on; existing entries keep their values
+  public setRoundingSettings(rounding: RoundingSettings): void {
+      this.runAction(() => {
+        this.settings = { ...this.settings, rounding };
+        this.persist();
+      });
+  }
+
+  // Presentation only: values stay canonical, labels are re-formatted on the next read
+  public setNumberFormat(format: NumberFormatSettings): void {
+      this.runAction(() => {
+        this.settings = { ...this.settings, format };
+        this.persist();
+      });
+  }
+
+  // Rate for 税込/税抜 entered from now on; tokens already entered keep their rate
+  public setTaxSettings(tax: TaxSettings): void {
+      this.runAction(() => {
+        this.settings = { ...this.settings, tax };
+        this.persist();
+      });
+  }
+
+  private roundForUnit(value: Decimal, unit: string | null): Decimal {
+      return applyRounding(value, resolveRoundingRule(this.settings.rounding, unit));
   }
 }
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Decimal } from './decimal';
+import { CalculationError } from './errors';
+
+const d = (value: string) => Decimal.from(value);
+
+describe('Decimal', () => {
+  it('parses plain, grouped and exponent notation', () => {
+    assert.equal(d('-1234.5').toString(), '-1234.5');
+    assert.equal(d('1,234.5').toString(), '1234.5');
+    assert.equal(d('1.2e3').toString(), '1200');
+    assert.equal(d('2.50').toString(), '2.5');
+  });
+
+  it('rejects malformed numbers', () => {
+    assert.equal(Decimal.isValid('abc'), false);
+    assert.equal(Decimal.isValid('.'), false);
+    assert.equal(Decimal.isValid('1.5'), true);
+  });
+
+  it('throws overflow for exponents past the parse limit instead of building the number', () => {
+    assert.throws(() => d('1e200000'), (e: unknown) => e instanceof CalculationError && e.kind === 'overflow');
+    assert.throws(() => d('1e-200000'), (e: unknown) => e instanceof CalculationError && e.kind === 'overflow');
+  });
+
+  it('adds and multiplies exactly', () => {
+    assert.equal(d('0.1').plus(d('0.2')).toString(), '0.3');
+    assert.equal(d('1.1').times(d('1.1')).toString(), '1.21');
+    assert.equal(d('5').minus(d('7.5')).toString(), '-2.5');
+  });
+
+  it('divides to the division scale', () => {
+    assert.equal(d('1').dividedBy(d('3')).toString(), '0.33333333333333333333');
+    assert.equal(d('1').dividedBy(d('8')).toString(), '0.125');
+  });
+
+  it('rounds with each mode', () => {
+    assert.equal(d('-0.005').round(2).toString(), '-0.01');
+    assert.equal(d('2.5').round(0, 'halfEven').toString(), '2');
+    assert.equal(d('3.5').round(0, 'halfEven').toString(), '4');
+    assert.equal(d('-1.2').round(0, 'floor').toString(), '-2');
+    assert.equal(d('1.2').round(0, 'ceil').toString(), '2');
+    assert.equal(d('-1.9').round(0, 'truncate').toString(), '-1');
+  });
+
+  it('compares values regardless of trailing zeros', () => {
+    assert.equal(d('1.50').equals(d('1.5')), true);
+    assert.equal(d('2').compare(d('10')), -1);
+  });
+});
@@ -0,0 +1,259 @@
+import { CalculationError } from './errors';
+
+// Arbitrary-precision decimal arithmetic backed by BigInt.
+// A value is stored as `coefficient × 10^-scale`, so 0.1 + 0.2 stays exactly 0.3
+// and yen totals never lose digits past 2^53.
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TEN = BigInt(10);
+
+// Number of fractional digits kept when a division does not terminate (e.g. 1 ÷ 3)
+export const DIVISION_SCALE = 20;
+
+// Largest exponent and number of fraction digits a parsed number may have; beyond this it is an overflow
+// rather than a value (BigInt work on "1e200000" would freeze the page)
+const MAX_PARSED_EXPONENT = 1000;
+
+const pow10 = (exp: number): bigint => TEN ** BigInt(exp);
+
+const abs = (n: bigint): bigint => (n < ZERO ? -n : n);
+
+// Integer square root (floor) by Newton's method
+const isqrt = (n: bigint): bigint => {
+  if (n < BigInt(2)) return n;
+  let x = BigInt(Math.floor(Math.sqrt(Number(n))));
+  // Float estimate can be off for large n; converge from above
+  if (x * x > n || (x + ONE) * (x + ONE) <= n) {
+    x = n;
+    let y = (x + ONE) / BigInt(2);
+    while (y < x) {
+      x = y;
+      y = (x + n / x) / BigInt(2);
+    }
+  }
+  return x;
+};
+
+// halfUp/halfEven round to nearest (ties away from zero / to even); floor and ceil round toward -∞ / +∞;
+// truncate drops the extra digits (toward zero)
+export type RoundingMode = 'halfUp' | 'halfEven' | 'floor' | 'ceil' | 'truncate';
+
+// Significant digits kept for results of floating-point math (trig, log, non-integer powers)
+const FLOAT_PRECISION = 15;
+
+export class Decimal {
+  private readonly coefficient: bigint;
+  private readonly scale: number;
+
+  private constructor(coefficient: bigint, scale: number) {
+    // Normalize: strip trailing zeros so equal values share one representation
+    while (scale > 0 && coefficient % TEN === ZERO) {
+      coefficient /= TEN;
+      scale--;
+    }
+    this.coefficient = coefficient;
+    this.scale = scale;
+  }
+
+  public static readonly ZERO = new Decimal(ZERO, 0);
+  public static readonly ONE = new Decimal(ONE, 0);
+
+  // Accepts plain ("-1234.5") and exponent ("1.2e+5") notation
+  public static from(value: string | number | Decimal): Decimal {
+    if (value instanceof Decimal) return value;
+    const str = typeof value === 'number' ? Decimal.numberToString(value) : value.trim().replace(/,/g, '');
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(str);
+    if (!match || (match[2] === '' && (match[3] === undefined || match[3] === ''))) {
+      throw new CalculationError('invalidExpression', `Invalid number: ${value}`);
+    }
+    const [, sign, intPart, fracPart = '', expPart] = match;
+    const exponent = expPart ? parseInt(expPart, 10) : 0;
+    let scale = fracPart.length - exponent;
+    if (Math.abs(exponent) > MAX_PARSED_EXPONENT || scale > MAX_PARSED_EXPONENT) throw new CalculationError('overflow');
+    let coefficient = BigInt((intPart || '0') + fracPart);
+    if (scale < 0) {
+      coefficient *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === '-' ? -coefficient : coefficient, scale);
+  }
+
+  public static isValid(value: string): boolean {
+    try {
+      Decimal.from(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Converts a floating-point result, dropping binary noise beyond FLOAT_PRECISION digits
+  public static fromFloat(value: number): Decimal {
+    if (!Number.isFinite(value)) throw new CalculationError('overflow');
+    if (Math.abs(value) < 1e-15) return Decimal.ZERO;
+    return Decimal.from(Number(value.toPrecision(FLOAT_PRECISION)));
+  }
+
+  private static numberToString(value: number): string {
+    if (!Number.isFinite(value)) throw new CalculationError('invalidExpression', `Invalid number: ${value}`);
+    return value.toString();
+  }
+
+  private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [a.coefficient * pow10(scale - a.scale), b.coefficient * pow10(scale - b.scale), scale];
+  }
+
+  public plus(other: Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, other);
+    return new Decimal(a + b, scale);
+  }
+
+  public minus(other: Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, other);
+    return new Decimal(a - b, scale);
+  }
+
+  public times(other: Decimal): Decimal {
+    return new Decimal(this.coefficient * other.coefficient, this.scale + other.scale);
+  }
+
+  // Exact when the quotient terminates, otherwise rounded half-up to `fractionDigits`
+  public dividedBy(other: Decimal, fractionDigits: number = DIVISION_SCALE): Decimal {
+    if (other.isZero()) throw new CalculationError('divisionByZero');
+    // this / other = (a × 10^-sa) / (b × 10^-sb); compute with `fractionDigits + 1` digits then round
+    const digits = fractionDigits + 1;
+    const shift = digits + other.scale - this.scale;
+    let numerator = this.coefficient;
+    let denominator = other.coefficient;
+    if (shift >= 0) numerator *= pow10(shift);
+    else denominator *= pow10(-shift);
+    const quotient = numerator / denominator;
+    if (quotient * denominator === numerator) {
+      return new Decimal(quotient, digits);
+    }
+    return new Decimal(quotient, digits).round(fractionDigits);
+  }
+
+  // Integer powers are exact; negative exponents divide
+  public pow(exponent: number): Decimal {
+    if (!Number.isInteger(exponent)) throw new CalculationError('invalidExpression', 'Non-integer exponent');
+    let result = Decimal.ONE;
+    let base = Decimal.from(this);
+    let n = Math.abs(exponent);
+    while (n > 0) {
+      if (n % 2 === 1) result = result.times(base);
+      base = base.times(base);
+      n = Math.floor(n / 2);
+    }
+    return exponent < 0 ? Decimal.ONE.dividedBy(result) : result;
+  }
+
+  // Exact for perfect squares, otherwise rounded to `fractionDigits`
+  public sqrt(fractionDigits: number = DIVISION_SCALE): Decimal {
+    if (this.isNegative()) throw new CalculationError('invalidExpression');
+    // Work with an even scale and one guard digit so the result can be rounded
+    const digits = Math.max(fractionDigits + 1, Math.ceil(this.scale / 2));
+    const scaled = this.coefficient * pow10(2 * digits - this.scale);
+    const root = isqrt(scaled);
+    if (root * root === scaled) return new Decimal(root, digits);
+    return new Decimal(root, digits).round(fractionDigits);
+  }
+
+  public negated(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  public abs(): Decimal {
+    return new Decimal(abs(this.coefficient), this.scale);
+  }
+
+  // Rounds to `fractionDigits` decimal places; the default (halfUp) rounds half away from zero
+  public round(fractionDigits: number = 0, mode: RoundingMode = 'halfUp'): Decimal {
+    if (this.scale <= fractionDigits) return this;
+    const divisor = pow10(this.scale - fractionDigits);
+    let quotient = this.coefficient / divisor; // Truncated toward zero
+    const remainder = abs(this.coefficient % divisor);
+    if (remainder !== ZERO && Decimal.roundsAway(mode, this.coefficient < ZERO, remainder * BigInt(2), divisor, quotient)) {
+      quotient += this.coefficient < ZERO ? -ONE : ONE;
+    }
+    return new Decimal(quotient, fractionDigits);
+  }
+
+  // Whether a truncated quotient must move one step away from zero (`twiceRemainder` compared to `divisor` tells the half)
+  private static roundsAway(mode: RoundingMode, negative: boolean, twiceRemainder: bigint, divisor: bigint, quotient: bigint): boolean {
+    switch (mode) {
+      case 'halfUp':
+        return twiceRemainder >= divisor;
+      case 'halfEven':
+        return twiceRemainder > divisor || (twiceRemainder === divisor && quotient % BigInt(2) !== ZERO);
+      case 'floor':
+        return negative;
+      case 'ceil':
+        return !negative;
+      case 'truncate':
+        return false;
+    }
+  }
+
+  public isZero(): boolean {
+    return this.coefficient === ZERO;
+  }
+
+  public isNegative(): boolean {
+    return this.coefficient < ZERO;
+  }
+
+  public isInteger(): boolean {
+    return this.scale === 0;
+  }
+
+  public compare(other: Decimal): number {
+    const [a, b] = Decimal.align(this, other);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  public equals(other: Decimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  // Number of digits before the decimal point (0 for |x| < 1)
+  public integerDigits(): number {
+    const intPart = abs(this.coefficient) / pow10(this.scale);
+    return intPart === ZERO ? 0 : intPart.toString().length;
+  }
+
+  public fractionDigits(): number {
+    return this.scale;
+  }
+
+  public toNumber(): number {
+    return parseFloat(this.toString());
+  }
+
+  // Plain (non-exponent) decimal notation
+  public toString(): string {
+    const negative = this.coefficient < ZERO;
+    const digits = abs(this.coefficient).toString().padStart(this.scale + 1, '0');
+    const intPart = digits.slice(0, digits.length - this.scale);
+    const fracPart = digits.slice(digits.length - this.scale);
+    return `${negative ? '-' : ''}${intPart}${fracPart ? '.' + fracPart : ''}`;
+  }
+
+  public toExponential(fractionDigits: number): string {
+    if (this.isZero()) return `0${fractionDigits > 0 ? '.' + '0'.repeat(fractionDigits) : ''}e+0`;
+    const negative = this.coefficient < ZERO;
+    const digits = abs(this.coefficient).toString();
+    let exponent = digits.length - 1 - this.scale;
+    // Round the mantissa to the requested length
+    let mantissa = new Decimal(BigInt(digits), digits.length - 1).round(fractionDigits);
+    if (mantissa.integerDigits() > 1) {
+      mantissa = mantissa.dividedBy(Decimal.from(10)).round(fractionDigits);
+      exponent++;
+    }
+    const [intPart, fracPart = ''] = mantissa.toString().split('.');
+    const fixedFrac = fracPart.padEnd(fractionDigits, '0');
+    return `${negative ? '-' : ''}${intPart}${fractionDigits > 0 ? '.' + fixedFrac : ''}e${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`;
+  }
+}
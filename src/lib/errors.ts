@@ -0,0 +1,54 @@
+// Typed calculation errors. `tokenIndex` points into the expression tokens (as returned by
+// Calculator.getExpressionTokens) so the UI can highlight the offending token.
+
+export type CalculationErrorKind =
+  | 'divisionByZero'
+  | 'mismatchedParentheses'
+  | 'invalidExpression'
+  | 'overflow'
+  | 'unitMismatch';
+
+export interface CalculationErrorInfo {
+  kind: CalculationErrorKind;
+  message: string;
+  tokenIndex: number | null;
+}
+
+const DEFAULT_MESSAGES: Record<CalculationErrorKind, string> = {
+  divisionByZero: 'Division by Zero',
+  mismatchedParentheses: 'Mismatched Parentheses',
+  invalidExpression: 'Invalid Expression',
+  overflow: 'Overflow',
+  unitMismatch: 'Unit Mismatch',
+};
+
+export const isCalculationErrorKind = (value: unknown): value is CalculationErrorKind =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_MESSAGES, value);
+
+export class CalculationError extends Error {
+  constructor(
+    public readonly kind: CalculationErrorKind,
+    message: string = DEFAULT_MESSAGES[kind],
+    public readonly tokenIndex: number | null = null
+  ) {
+    super(message);
+    this.name = 'CalculationError';
+  }
+
+  // Low-level code (Decimal, units) does not know token positions; the evaluator fills them in
+  public at(tokenIndex: number): CalculationError {
+    if (this.tokenIndex !== null) return this;
+    return new CalculationError(this.kind, this.message, tokenIndex);
+  }
+
+  public toInfo(): CalculationErrorInfo {
+    return { kind: this.kind, message: this.message, tokenIndex: this.tokenIndex };
+  }
+
+  // Wraps anything thrown during evaluation
+  public static from(error: unknown, tokenIndex: number | null = null): CalculationError {
+    if (error instanceof CalculationError) return tokenIndex === null ? error : error.at(tokenIndex);
+    const message = error instanceof Error ? error.message : String(error);
+    return new CalculationError('invalidExpression', message, tokenIndex);
+  }
+}
@@ -0,0 +1,107 @@
+import type { ExpressionToken, HistoryItem, SavedVariable } from './calculator';
+import { joinExpression, serializeExpression } from './expressionText';
+import { DEFAULT_NUMBER_FORMAT, NumberFormatSettings, formatNumber, formatQuantity } from './format';
+
+// Exports of the calculation history and saved variables.
+//
+//   csv      - one row per entry; the expression column uses the paste-able text form
+//   json     - versioned document with the raw entries (display-only token fields dropped)
+//   markdown - readable "receipt": every operand as `name (value unit)`, numbers in the chosen number format
+//   text     - the same receipt as plain text
+//
+// CSV and JSON always use canonical numbers so they can be re-imported and read by other tools.
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'text';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  text: { label: 'Text', extension: 'txt', mimeType: 'text/plain' },
+};
+
+export const EXPORT_DOCUMENT_VERSION = 1;
+
+export const HISTORY_CSV_COLUMNS = ['expression', 'result', 'unit'];
+export const VARIABLE_CSV_COLUMNS = ['label', 'value', 'unit', 'color', 'updated_at'];
+
+// --- CSV ---
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsvField = (field: string): string =>
+  /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+const toCsv = (header: string[], rows: string[][]): string =>
+  [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+
+// --- Receipt formatting ---
+
+// Human-readable expression: "単価 (1,200 円) × 数量 (3 個) + 送料 (500 円)"
+export const formatReceiptExpression = (tokens: ExpressionToken[], numberFormat: NumberFormatSettings = DEFAULT_NUMBER_FORMAT): string =>
+  joinExpression(tokens, token => {
+    const quantity = formatQuantity(token.value, token.unit, numberFormat);
+    return token.label ? `${token.label} (${quantity})` : quantity;
+  });
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]|#<>])/g, '\\$1');
+
+// --- JSON ---
+
+const stripToken = ({ type, value, label, unit, color, variableId, rate, ansIndex, lineId }: ExpressionToken): ExpressionToken => ({
+  type, value, label, unit, color, variableId, rate, ansIndex, lineId,
+});
+
+const toJson = (document: Record<string, unknown>): string =>
+  JSON.stringify({ version: EXPORT_DOCUMENT_VERSION, ...document }, null, 2) + '\n';
+
+// --- Exporters ---
+
+export const exportHistory = (items: HistoryItem[], format: ExportFormat, numberFormat: NumberFormatSettings = DEFAULT_NUMBER_FORMAT): string => {
+  const formatResult = (item: HistoryItem): string => formatQuantity(item.result, item.unit, numberFormat);
+  switch (format) {
+    case 'csv':
+      return toCsv(HISTORY_CSV_COLUMNS, items.map(item => [serializeExpression(item.expressionTokens), item.result, item.unit ?? '']));
+    case 'json':
+      return toJson({
+        history: items.map(item => ({ ...item, expressionTokens: item.expressionTokens.map(stripToken) })),
+      });
+    case 'markdown':
+      return [
+        '# History',
+        '',
+        ...items.map((item, i) => `${i + 1}. ${escapeMarkdown(formatReceiptExpression(item.expressionTokens, numberFormat))}  \n   = **${escapeMarkdown(formatResult(item))}**`),
+        '',
+      ].join('\n');
+    case 'text':
+      return items.map(item => `${formatReceiptExpression(item.expressionTokens, numberFormat)}\n= ${formatResult(item)}\n`).join('----------------\n');
+  }
+};
+
+export const exportVariables = (variables: SavedVariable[], format: ExportFormat, numberFormat: NumberFormatSettings = DEFAULT_NUMBER_FORMAT): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(
+        VARIABLE_CSV_COLUMNS,
+        variables.map(v => [v.label, v.value, v.unit ?? '', v.color ?? '', new Date(v.timestamp).toISOString()])
+      );
+    case 'json':
+      return toJson({ variables });
+    case 'markdown':
+      return [
+        '# Variables',
+        '',
+        '| Name | Value | Unit |',
+        '| --- | ---: | --- |',
+        ...variables.map(v => `| ${escapeMarkdown(v.label)} | ${escapeMarkdown(formatNumber(v.value, numberFormat))} | ${escapeMarkdown(v.unit ?? '')} |`),
+        '',
+      ].join('\n');
+    case 'text':
+      return variables.map(v => `${v.label} (${formatQuantity(v.value, v.unit, numberFormat)})\n`).join('');
+  }
+};
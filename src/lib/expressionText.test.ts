@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SavedVariable } from './calculator';
+import { Calculator } from './calculator';
+import { parseExpression, serializeExpression } from './expressionText';
+
+const roundTrip = (text: string, options = {}) => serializeExpression(parseExpression(text, options));
+
+describe('expression text', () => {
+  it('reads back what it writes', () => {
+    ['1200円 × 3', '(1 + 2) × 3', '2 ^ 10', '√(16) + 5%', 'sin(30) + π', '1000 税込10%', '2 π'].forEach(text => {
+      assert.equal(roundTrip(text), text);
+    });
+  });
+
+  it('normalizes spacing and omitted tax rates once', () => {
+    assert.equal(roundTrip('2^10'), '2 ^ 10');
+    assert.equal(roundTrip('1000 税込'), '1000 税込10%');
+    assert.equal(roundTrip(roundTrip('1000 税込')), '1000 税込10%');
+  });
+
+  it('links saved variables by label and keeps their value in the text', () => {
+    const variables: SavedVariable[] = [{ id: 'v1', label: '単価', value: '1200', unit: '円', timestamp: 1 }];
+    const tokens = parseExpression('単価 × 3', { variables });
+    assert.equal(tokens[0].variableId, 'v1');
+    assert.equal(tokens[0].value, '1200');
+    assert.equal(serializeExpression(tokens), '単価(1200円) × 3');
+    assert.equal(roundTrip('単価(1200円) × 3', { variables }), '単価(1200円) × 3');
+  });
+
+  it('pastes a copied expression into an equivalent one', () => {
+    const calculator = new Calculator();
+    calculator.pasteExpression('(1200円 + 300円) × 2');
+    const text = calculator.getExpressionText();
+    calculator.clear();
+    calculator.pasteExpression(text);
+    assert.equal(calculator.getExpressionText(), text);
+    calculator.calculate();
+    assert.equal(calculator.getCurrentValue(), '3000');
+    assert.equal(calculator.getCurrentUnit(), '円');
+  });
+});
@@ -0,0 +1,327 @@
+import type { ExpressionToken, HistoryItem, Operation, SavedVariable, VariableColor } from './calculator';
+import { MATH_CONSTANTS, MATH_FUNCTIONS } from './functions';
+import { endsValue, expectsOperandAfter } from './grammar';
+import { DEFAULT_TAX_SETTINGS } from './percent';
+
+// Plain-text form of an expression, e.g. `単価(1200円) × 数量(3個) + 送料(500円)`.
+//
+//   operand  := number [unit] | label "(" number [unit] ")" | variable-label | constant   (optionally followed by "@color")
+//             | Ans | Ans "(" n ")"   (previous result / history entry n)
+//             | line-label | "#" n      (earlier line of a calculation sheet)
+//   operator := + - × ÷ ^ ⁿ√   (also accepts * / − and full-width forms)
+//   postfix  := "%" | 税込 [rate "%"] | 税抜 [rate "%"]   after a value: 2000 + 10%, 1000円 税込8%
+//   function := sin cos tan log ln abs round √, always followed by "("
+//
+// Parsing produces bare tokens (type/value/label/unit/color/variableId); display labels are added by Calculator.
+
+export class ExpressionParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly unknownVariable?: string // Label that names no saved variable
+  ) {
+    super(message);
+    this.name = 'ExpressionParseError';
+  }
+}
+
+// A sheet line that can be referenced from the lines below it (see sheet.ts)
+export interface LineReference {
+  id: string;
+  label: string;
+  number: number;
+  value: string | null; // Null when the line has no result
+  unit: string | null;
+}
+
+export interface ParseOptions {
+  // Bare labels that match a saved variable become operands linked to it
+  variables?: SavedVariable[];
+  // Results Ans / Ans(n) refer to, newest first (Calculator.getHistory)
+  history?: HistoryItem[];
+  // Sheet lines a bare label or "#n" may refer to; they take precedence over variables with the same label
+  lines?: LineReference[];
+  // Rate for 税込/税抜 written without one (defaults to the standard rate)
+  taxRate?: string;
+}
+
+const OPERATOR_ALIASES: Record<string, Operation> = {
+  '+': '+', '＋': '+',
+  '-': '-', '−': '-', '－': '-',
+  '×': '×', '*': '×', '＊': '×',
+  '÷': '÷', '/': '÷', '／': '÷',
+  '^': '^', 'ⁿ√': 'ⁿ√',
+};
+
+const PAREN_ALIASES: Record<string, '(' | ')'> = { '(': '(', '（': '(', ')': ')', '）': ')' };
+
+const VARIABLE_COLORS: VariableColor[] = ['red', 'yellow', 'blue', 'orange', 'green', 'white'];
+
+// Exponent notation as results are shown when very large or small ("1.234568e+25"); an "e" without digits is not part of the number
+const NUMBER_PATTERN = /^[-−]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+const WORD_BREAK = /[\s()（）+＋\-−－×*＊÷/／^ⁿ√@=＝%％]/;
+const TAX_OPERATORS = ['税込', '税抜'];
+
+export const normalizeDigits = (text: string): string =>
+  text.replace(/[０-９．，]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0));
+
+const readNumber = (text: string, pos: number): string | null => {
+  const match = NUMBER_PATTERN.exec(text.slice(pos));
+  if (!match || !/\d/.test(match[0])) return null;
+  return match[0];
+};
+
+const toCanonicalNumber = (raw: string): string => raw.replace(/,/g, '').replace('−', '-');
+
+// Whether a label reads back as itself in "label(value)" and as a bare reference: one word that is not a number,
+// a function, constant, tax operator, Ans or line number. Commas and quotes are left to numbers and CSV fields.
+export const isReadableLabel = (label: string): boolean =>
+  label !== '' && !WORD_BREAK.test(label) && !/[,"']/.test(label) && normalizeDigits(label) === label &&
+  readNumber(label, 0) === null && !(MATH_FUNCTIONS as string[]).includes(label) && !(label in MATH_CONSTANTS) &&
+  !TAX_OPERATORS.includes(label) && label !== 'Ans' && !/^#\d+$/.test(label);
+
+// Operand holding the result of history entry n (1 = previous calculation), labelled "Ans" / "Ans(n)"
+export const createAnsToken = (n: number, item: HistoryItem): ExpressionToken => ({
+  type: 'ans',
+  value: item.result,
+  unit: item.unit,
+  label: n === 1 ? 'Ans' : `Ans(${n})`,
+  ansIndex: n,
+});
+
+export const parseExpression = (input: string, options: ParseOptions = {}): ExpressionToken[] => {
+  // Ignore a trailing "= result" (e.g. text copied from history)
+  const text = normalizeDigits(input).replace(/\s*[=＝][\s\S]*$/, '');
+  const tokens: ExpressionToken[] = [];
+  const variables = options.variables ?? [];
+  let pos = 0;
+
+  const expectsOperand = (): boolean => expectsOperandAfter(tokens[tokens.length - 1]);
+
+  // `stopAtTax`: a unit ends where 税込/税抜 begins ("1000円税込")
+  const readWord = (stopAtTax: boolean = false): string => {
+    const start = pos;
+    while (pos < text.length && !WORD_BREAK.test(text[pos]) && !(stopAtTax && pos > start && TAX_OPERATORS.some(t => text.startsWith(t, pos)))) pos++;
+    return text.slice(start, pos);
+  };
+
+  // Like readWord, but "/" continues the unit when directly followed by another unit (円/個)
+  const readUnit = (): string => {
+    let unit = readWord(true);
+    while (unit && (text[pos] === '/' || text[pos] === '／') && pos + 1 < text.length && !/\d/.test(text[pos + 1]) && !WORD_BREAK.test(text[pos + 1])) {
+      pos++;
+      unit += '/' + readWord(true);
+    }
+    return unit;
+  };
+
+  // 税込 / 税抜 with an optional rate ("税込8%"); a longer word ("税込価格") is a label instead
+  const matchTax = (): { value: string, rate?: string, end: number } | null => {
+    const tax = TAX_OPERATORS.find(t => text.startsWith(t, pos));
+    if (!tax) return null;
+    const rate = /^(\d+(?:\.\d+)?)[%％]/.exec(text.slice(pos + tax.length));
+    const end = pos + tax.length + (rate ? rate[0].length : 0);
+    if (end < text.length && !WORD_BREAK.test(text[end])) return null;
+    return { value: tax, rate: rate ? rate[1] : undefined, end };
+  };
+
+  // Function names are reserved, so "abs(5)" is a call rather than a label
+  const matchFunction = (): string | undefined =>
+    MATH_FUNCTIONS.find(f => text.startsWith(f, pos) && PAREN_ALIASES[text[pos + f.length]] === '(');
+
+  const matchConstant = (): string | undefined =>
+    Object.keys(MATH_CONSTANTS).find(c => text.startsWith(c, pos) && (pos + c.length >= text.length || WORD_BREAK.test(text[pos + c.length])));
+
+  // "Ans(1200円)" is a labelled value, "Ans(2)" refers to history entry 2
+  const matchAns = (): RegExpExecArray | null => {
+    const ans = /^Ans(?:[(（](\d+)[)）])?/.exec(text.slice(pos));
+    const afterAns = ans ? text[pos + ans[0].length] : undefined;
+    return ans && (afterAns === undefined || (WORD_BREAK.test(afterAns) && PAREN_ALIASES[afterAns] !== '(')) ? ans : null;
+  };
+
+  // A function, constant or Ans after a number is a factor, not its unit: "2 π", "3 abs(-2)", "2 Ans"
+  const matchesReservedName = (): boolean => !!matchFunction() || !!matchConstant() || !!matchAns();
+
+  const readColor = (token: ExpressionToken): void => {
+    if (text[pos] !== '@') return;
+    const start = pos;
+    pos++;
+    const color = readWord();
+    if (!(VARIABLE_COLORS as string[]).includes(color)) {
+      throw new ExpressionParseError(`Unknown color: ${color}`, start);
+    }
+    token.color = color as VariableColor;
+  };
+
+  const readOperand = (): ExpressionToken => {
+    const start = pos;
+    const number = readNumber(text, pos);
+    if (number) {
+      // number [unit]
+      pos += number.length;
+      while (text[pos] === ' ') pos++;
+      const unit = matchTax() || matchesReservedName() ? '' : readUnit(); // "1000 税込" is a tax, not a unit
+      return { type: 'operand', value: toCanonicalNumber(number), unit: unit || undefined };
+    }
+
+    const label = readWord();
+    if (!label) throw new ExpressionParseError('Expected a number', start);
+
+    if (PAREN_ALIASES[text[pos]] === '(') {
+      // label "(" number [unit] ")"
+      const close = text.slice(pos + 1).search(/[)）]/);
+      if (close < 0) throw new ExpressionParseError('Missing closing parenthesis', pos);
+      const inner = text.slice(pos + 1, pos + 1 + close).trim();
+      const innerNumber = readNumber(inner, 0);
+      if (!innerNumber) throw new ExpressionParseError(`Expected a value for ${label}`, pos + 1);
+      const unit = inner.slice(innerNumber.length).trim();
+      pos += close + 2;
+      const token: ExpressionToken = { type: 'operand', value: toCanonicalNumber(innerNumber), label, unit: unit || undefined };
+      // Keep the variable's color, and its link when the value still matches
+      const variable = variables.find(v => v.label === label);
+      if (variable) {
+        token.color = variable.color;
+        if (variable.value === token.value && (variable.unit || undefined) === token.unit) token.variableId = variable.id;
+      }
+      return token;
+    }
+
+    const lineNumber = /^#(\d+)$/.exec(label);
+    // The nearest line above wins when labels repeat
+    const line = [...(options.lines ?? [])].reverse().find(l => lineNumber ? l.number === parseInt(lineNumber[1], 10) : !!l.label && l.label === label);
+    if (line) {
+      if (line.value === null) throw new ExpressionParseError(`Line ${label} has no result`, start);
+      return { type: 'operand', value: line.value, label, unit: line.unit ?? undefined, lineId: line.id };
+    }
+    if (lineNumber) throw new ExpressionParseError(`Unknown line: ${label}`, start);
+
+    const variable = variables.find(v => v.label === label);
+    if (!variable) throw new ExpressionParseError(`Unknown variable: ${label}`, start, label);
+    return {
+      type: 'operand',
+      value: variable.value,
+      label: variable.label,
+      unit: variable.unit,
+      color: variable.color,
+      variableId: variable.id,
+    };
+  };
+
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    const paren = PAREN_ALIASES[ch];
+    if (paren) {
+      tokens.push({ type: 'parenthesis', value: paren });
+      pos++;
+      continue;
+    }
+
+    if (ch === '%' || ch === '％') {
+      if (expectsOperand()) throw new ExpressionParseError('Unexpected %', pos);
+      tokens.push({ type: 'postfix', value: '%' });
+      pos++;
+      continue;
+    }
+
+    const tax = matchTax();
+    if (tax) {
+      if (expectsOperand()) throw new ExpressionParseError(`Unexpected ${tax.value}`, pos);
+      tokens.push({ type: 'postfix', value: tax.value, rate: tax.rate ?? options.taxRate ?? DEFAULT_TAX_SETTINGS.rate });
+      pos = tax.end;
+      continue;
+    }
+
+    // A "-" in operand position is a unary sign, never part of the number, so "-2^2" is -(2^2) as on the keypad
+    const opSymbol = text.startsWith('ⁿ√', pos) ? 'ⁿ√' : ch;
+    const op = OPERATOR_ALIASES[opSymbol];
+    if (op) {
+      // In operand position only a sign is allowed (unary: "-(1 + 2)", "2 × -π")
+      if (expectsOperand() && op !== '+' && op !== '-') throw new ExpressionParseError(`Unexpected operator: ${opSymbol}`, pos);
+      tokens.push({ type: 'operator', value: op });
+      pos += opSymbol.length;
+      continue;
+    }
+
+    // A value directly after ")" or a constant, or a function, constant or Ans after a number, is an implicit
+    // multiplication, resolved by the evaluator
+    const last = tokens[tokens.length - 1];
+    const implicitMultiplication = last && endsValue(last) && (last.type !== 'operand' || matchesReservedName());
+    if (!expectsOperand() && !implicitMultiplication) throw new ExpressionParseError(`Expected an operator`, pos);
+
+    const fn = matchFunction();
+    if (fn) {
+      tokens.push({ type: 'function', value: fn });
+      pos += fn.length;
+      continue;
+    }
+
+    const constant = matchConstant();
+    if (constant) {
+      tokens.push({ type: 'constant', value: constant });
+      pos += constant.length;
+      continue;
+    }
+
+    const ans = matchAns();
+    if (ans) {
+      const n = ans[1] ? parseInt(ans[1], 10) : 1;
+      const item = options.history?.[n - 1];
+      if (!item) throw new ExpressionParseError(`No result for ${ans[0]}`, pos);
+      tokens.push(createAnsToken(n, item));
+      pos += ans[0].length;
+      continue;
+    }
+
+    const token = readOperand();
+    readColor(token);
+    tokens.push(token);
+  }
+
+  return tokens;
+};
+
+const serializeOperand = (token: ExpressionToken): string => {
+  const quantity = token.unit ? `${token.value}${token.unit}` : token.value;
+  // Ans is written with the value it held ("Ans(14円)"); a bare "Ans" would read back as whatever is the
+  // latest result by then. "Ans(7)" reads back as history entry 7, so a plain whole number is written as is
+  if (token.type === 'ans') return /^\d+$/.test(quantity) ? quantity : `Ans(${quantity})`;
+  // Labels that would not read back (derived result names like "単価×数量") are left out
+  const body = token.label && isReadableLabel(token.label) ? `${token.label}(${quantity})` : quantity;
+  return token.color ? `${body}@${token.color}` : body;
+};
+
+// Text of a non-operand token; tax tokens carry their rate (税込10%)
+export const formatSymbol = (token: ExpressionToken): string =>
+  token.type === 'postfix' && token.rate !== undefined ? `${token.value}${token.rate}%` : token.value;
+
+// Joins tokens with single spaces, keeping "(" / ")", function names and "%" tight: "sin(π ÷ 2)", "10%"
+export const joinExpression = (tokens: ExpressionToken[], formatOperand: (token: ExpressionToken) => string): string => {
+  let text = '';
+  tokens.forEach((token, i) => {
+    const prev = tokens[i - 1];
+    const tight = !prev || prev.type === 'function' || (prev.type === 'parenthesis' && prev.value === '(') ||
+      (token.type === 'parenthesis' && token.value === ')') || (token.type === 'postfix' && token.value === '%');
+    text += (tight ? '' : ' ') + (token.type === 'operand' || token.type === 'ans' ? formatOperand(token) : formatSymbol(token));
+  });
+  return text;
+};
+
+// A negative number before ^ / ⁿ√ is parenthesized: "-2 ^ 2" would read back as -(2^2)
+const groupNegativeBase = (tokens: ExpressionToken[], format: (token: ExpressionToken) => string) => (token: ExpressionToken): string => {
+  const text = format(token);
+  const next = tokens[tokens.indexOf(token) + 1];
+  return text.startsWith('-') && next?.type === 'operator' && (next.value === '^' || next.value === 'ⁿ√') ? `(${text})` : text;
+};
+
+// Inverse of parseExpression; display-only fields (numberLabel, nameLabel, id) are not needed
+export const serializeExpression = (tokens: ExpressionToken[]): string =>
+  joinExpression(tokens, groupNegativeBase(tokens, serializeOperand));
+
+// Formula of a formula variable: linked variables by bare label, so parsing it again links them whatever their values
+export const serializeFormula = (tokens: ExpressionToken[]): string =>
+  joinExpression(tokens, groupNegativeBase(tokens, token => token.variableId && token.label ? token.label : serializeOperand(token)));
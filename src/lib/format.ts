@@ -0,0 +1,129 @@
+import { Decimal } from './decimal';
+
+// Number formatting shared by the display, expression labels, history and receipts.
+// Values inside the engine stay canonical ("-1234.5"); only the presentation changes:
+//
+//   locale         - grouping / decimal separators (1,234.5 / 1.234,5 / 1 234,5 / 1'234.5)
+//   japaneseUnits  - 万/億/兆 notation instead of thousands grouping (1億2345万6789)
+//   fullWidth      - full-width digits and signs (１，２３４．５)
+//   fixedDecimals  - pad or round results to a fixed number of decimals
+
+export type NumberLocale = 'ja-JP' | 'de-DE' | 'fr-FR' | 'de-CH';
+
+export interface NumberLocaleInfo {
+  label: string;
+  groupSeparator: string;
+  decimalSeparator: string;
+}
+
+export const NUMBER_LOCALES: Record<NumberLocale, NumberLocaleInfo> = {
+  'ja-JP': { label: '1,234.5', groupSeparator: ',', decimalSeparator: '.' },
+  'de-DE': { label: '1.234,5', groupSeparator: '.', decimalSeparator: ',' },
+  'fr-FR': { label: '1 234,5', groupSeparator: ' ', decimalSeparator: ',' },
+  'de-CH': { label: "1'234.5", groupSeparator: "'", decimalSeparator: '.' },
+};
+
+export interface NumberFormatSettings {
+  locale: NumberLocale;
+  japaneseUnits: boolean;
+  fullWidth: boolean;
+  fixedDecimals: number | null;
+}
+
+export const MAX_FIXED_DECIMALS = 10;
+
+// Results longer than this switch to exponent notation (integers stay exact up to here)
+const MAX_INTEGER_DIGITS = 21;
+// Fractions are rounded so the whole result fits in this many digits
+const MAX_SIGNIFICANT_DIGITS = 12;
+// Non-zero results smaller than this are shown in exponent notation
+const MIN_PLAIN_VALUE = Decimal.from('1e-6');
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormatSettings = {
+  locale: 'ja-JP',
+  japaneseUnits: false,
+  fullWidth: false,
+  fixedDecimals: null,
+};
+
+export const isNumberFormatSettings = (value: unknown): value is NumberFormatSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { locale, japaneseUnits, fullWidth, fixedDecimals } = value as Record<string, unknown>;
+  return typeof locale === 'string' && Object.prototype.hasOwnProperty.call(NUMBER_LOCALES, locale) &&
+    typeof japaneseUnits === 'boolean' &&
+    typeof fullWidth === 'boolean' &&
+    (fixedDecimals === null || (typeof fixedDecimals === 'number' && Number.isInteger(fixedDecimals) && fixedDecimals >= 0 && fixedDecimals <= MAX_FIXED_DECIMALS));
+};
+
+// Powers of 10^4; integers beyond 垓 fall back to thousands grouping
+const JAPANESE_UNITS = ['', '万', '億', '兆', '京', '垓'];
+
+// "123456789" -> "1億2345万6789" (empty groups are skipped: "100000000" -> "1億"); null when too large
+const groupJapanese = (digits: string): string | null => {
+  const groups: string[] = [];
+  for (let end = digits.length; end > 0; end -= 4) groups.unshift(digits.slice(Math.max(0, end - 4), end));
+  if (groups.length > JAPANESE_UNITS.length) return null;
+  const text = groups
+    .map((group, i) => {
+      const n = group.replace(/^0+/, '');
+      return n ? n + JAPANESE_UNITS[groups.length - 1 - i] : '';
+    })
+    .join('');
+  return text || '0';
+};
+
+const toFullWidth = (text: string): string => text.replace(/[0-9.,+\-e']/g, ch => String.fromCharCode(ch.charCodeAt(0) + 0xfee0));
+
+// Pads or rounds a plain decimal string to exactly `digits` decimals
+const toFixedDecimals = (value: string, digits: number): string => {
+  const [intPart, fracPart = ''] = Decimal.from(value).round(digits).toString().split('.');
+  return digits > 0 ? `${intPart}.${fracPart.padEnd(digits, '0')}` : intPart;
+};
+
+// Canonical string of a result, shortened to fit the display ("0.333333333333", "1.234568e+25")
+export const shortenResult = (num: Decimal): string => {
+  // Integer part is always kept exact; only the fraction is shortened
+  const integerDigits = num.integerDigits();
+  if (integerDigits > MAX_INTEGER_DIGITS) {
+    return num.toExponential(6);
+  }
+  if (integerDigits === 0 && !num.isZero() && num.abs().compare(MIN_PLAIN_VALUE) < 0) {
+    return num.toExponential(6);
+  }
+  const fractionDigits = Math.max(0, MAX_SIGNIFICANT_DIGITS - Math.max(integerDigits, 1));
+  return num.round(fractionDigits).toString();
+};
+
+const shortenIfLonger = (value: string): string => {
+  const num = Decimal.from(value);
+  const shortened = shortenResult(num);
+  return Decimal.from(shortened).compare(num) === 0 ? value : shortened;
+};
+
+// `isResult` = false for the number being typed, which must keep its digits (and a trailing ".") as entered
+export const formatNumber = (value: string | null, settings: NumberFormatSettings = DEFAULT_NUMBER_FORMAT, isResult: boolean = true): string => {
+  if (!value) return '';
+  const { groupSeparator, decimalSeparator } = NUMBER_LOCALES[settings.locale];
+  // Stored values may carry more digits than a result is shown with (formula variables); exact ones stay as they are
+  const shown = isResult && Decimal.isValid(value) ? shortenIfLonger(value) : value;
+
+  let text: string;
+  const exponent = /^(-?\d+(?:\.\d+)?)[eE]([+-]?\d+)$/.exec(shown);
+  if (exponent) {
+    // Exponent notation (very large/small results): only the mantissa's separator is localized
+    text = `${exponent[1].replace('.', decimalSeparator)}e${exponent[2]}`;
+  } else {
+    const plain = isResult && settings.fixedDecimals !== null && Decimal.isValid(shown) ? toFixedDecimals(shown, settings.fixedDecimals) : shown;
+    const negative = plain.startsWith('-');
+    const [intPart, fracPart] = (negative ? plain.slice(1) : plain).split('.');
+    const grouped = (settings.japaneseUnits ? groupJapanese(intPart) : null) ?? intPart.replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator);
+    text = `${negative ? '-' : ''}${grouped}${fracPart !== undefined ? decimalSeparator + fracPart : ''}`;
+  }
+  return settings.fullWidth ? toFullWidth(text) : text;
+};
+
+// "1,200 円", or just the number for unitless values
+export const formatQuantity = (value: string, unit: string | null | undefined, settings: NumberFormatSettings = DEFAULT_NUMBER_FORMAT, isResult: boolean = true): string => {
+  const formatted = formatNumber(value, settings, isResult);
+  return unit ? `${formatted} ${unit}` : formatted;
+};
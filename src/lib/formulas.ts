@@ -0,0 +1,85 @@
+import type { SavedVariable } from './calculator';
+import { serializeFormula } from './expressionText';
+
+// Dependency graph of formula variables.
+//
+//   売価   1500円
+//   原価   1000円
+//   粗利   = 売価 − 原価        (formula: tokens linked to 売価 and 原価 by id)
+//   粗利率 = 粗利 ÷ 売価 × 100
+//
+// A formula refers to other variables by id, so renaming a variable keeps the formulas using it.
+// Edges point from a formula variable to the variables its formula uses; the graph must stay acyclic.
+
+export type FormulaErrorKind = 'cycle' | 'inUse';
+
+export class FormulaError extends Error {
+  constructor(
+    public readonly kind: FormulaErrorKind,
+    public readonly labels: string[], // Cycle path (first label repeated at the end) / variables still using the deleted one
+    message: string
+  ) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+// Ids of the variables a formula uses directly
+export const getDependencies = (variable: Pick<SavedVariable, 'formula'>): string[] =>
+  Array.from(new Set((variable.formula ?? []).filter(t => t.variableId).map(t => t.variableId!)));
+
+// Formula as text with the current labels of the variables it uses ("" for plain variables)
+export const getFormulaText = (variable: SavedVariable, variables: SavedVariable[]): string =>
+  variable.formula
+    ? serializeFormula(variable.formula.map(t => {
+        const used = t.variableId ? variables.find(v => v.id === t.variableId) : undefined;
+        return used ? { ...t, label: used.label } : t;
+      }))
+    : '';
+
+// Variables whose formulas use the given one directly
+export const getDirectDependents = (variables: SavedVariable[], id: string): SavedVariable[] =>
+  variables.filter(v => v.id !== id && getDependencies(v).includes(id));
+
+// Path of labels from `id` back to itself when giving it `dependencies` would close a cycle, else null
+export const findCycle = (variables: SavedVariable[], id: string, dependencies: string[]): string[] | null => {
+  const byId = new Map(variables.map(v => [v.id, v] as [string, SavedVariable]));
+  const labelOf = (varId: string) => byId.get(varId)?.label ?? varId;
+  const visited = new Set<string>();
+
+  const visit = (current: string, path: string[]): string[] | null => {
+    if (current === id) return [...path, labelOf(id)];
+    if (visited.has(current)) return null;
+    visited.add(current);
+    const variable = byId.get(current);
+    for (const next of variable ? getDependencies(variable) : []) {
+      const cycle = visit(next, [...path, labelOf(current)]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const dependency of dependencies) {
+    const cycle = visit(dependency, [labelOf(id)]);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+// Every variable depending on `id` directly or indirectly, ordered so each comes after the variables it uses
+export const getDependentsInOrder = (variables: SavedVariable[], id: string): SavedVariable[] => {
+  const ordered: SavedVariable[] = [];
+  const done = new Set<string>();
+
+  // Depth-first post-order over the reversed edges, then reversed: a topological order of the affected part
+  const visit = (varId: string) => {
+    getDirectDependents(variables, varId).forEach(dependent => {
+      if (done.has(dependent.id)) return;
+      done.add(dependent.id);
+      visit(dependent.id);
+      ordered.push(dependent);
+    });
+  };
+  visit(id);
+  return ordered.reverse();
+};
@@ -0,0 +1,107 @@
+import { Decimal } from './decimal';
+import { CalculationError } from './errors';
+import { Quantity, UnitMismatchError, formatUnit, isDimensionless, scaleUnit } from './units';
+
+// Scientific functions and constants for the expression evaluator.
+// Exact decimal arithmetic is used where possible (integer powers, perfect roots);
+// everything else goes through floating point and is trimmed by Decimal.fromFloat.
+
+export type MathFunction = 'sin' | 'cos' | 'tan' | 'log' | 'ln' | 'abs' | 'round' | '√';
+export type MathConstant = 'π' | 'e';
+
+export const MATH_FUNCTIONS: MathFunction[] = ['sin', 'cos', 'tan', 'log', 'ln', 'abs', 'round', '√'];
+export const MATH_CONSTANTS: Record<MathConstant, Decimal> = {
+  'π': Decimal.from('3.14159265358979323846'),
+  'e': Decimal.from('2.71828182845904523536'),
+};
+
+export const isMathFunction = (value: string): value is MathFunction => (MATH_FUNCTIONS as string[]).includes(value);
+export const isMathConstant = (value: string): value is MathConstant => value in MATH_CONSTANTS;
+
+// Integer exponents above this are computed in floating point to keep BigInt sizes sane
+const MAX_EXACT_EXPONENT = 1000;
+// Exact powers are only computed when the result has at most this many integer and fraction digits;
+// a larger result is an overflow, a longer fraction or a tinier value is computed in floating point
+const MAX_EXACT_POWER_DIGITS = 1000;
+
+const requireDimensionless = (q: Quantity, context: string): void => {
+  if (!isDimensionless(q.unit)) throw new UnitMismatchError(formatUnit(q.unit) ?? '', context);
+};
+
+// log10 |x| read off the exponent notation, so it works beyond the floating-point range
+const log10Abs = (x: Decimal): number => {
+  if (x.isZero()) return 0;
+  const [mantissa, exponent] = x.abs().toExponential(6).split('e');
+  return Math.log10(parseFloat(mantissa)) + parseInt(exponent, 10);
+};
+
+const float = (value: number): Decimal => {
+  if (Number.isNaN(value)) throw new CalculationError('invalidExpression');
+  return Decimal.fromFloat(value);
+};
+
+export const powerQuantity = (base: Quantity, exponent: Quantity): Quantity => {
+  requireDimensionless(exponent, '^');
+  const n = exponent.value;
+  if (n.isInteger() && n.abs().compare(Decimal.from(MAX_EXACT_EXPONENT)) <= 0) {
+    if (base.value.isZero() && n.isNegative()) throw new CalculationError('divisionByZero');
+    const exponentValue = n.toNumber();
+    const unit = scaleUnit(base.unit, exponentValue);
+    // Size of the result, estimated before any BigInt work
+    const magnitude = exponentValue * log10Abs(base.value);
+    if (magnitude > MAX_EXACT_POWER_DIGITS) throw new CalculationError('overflow');
+    if (Math.abs(magnitude) > MAX_EXACT_POWER_DIGITS || Math.abs(exponentValue) * base.value.fractionDigits() > MAX_EXACT_POWER_DIGITS) {
+      return { value: float(Math.pow(base.value.toNumber(), exponentValue)), unit };
+    }
+    return { value: base.value.pow(exponentValue), unit };
+  }
+  // Fractional powers of a unit are only meaningful when dimensionless
+  requireDimensionless(base, '^');
+  return { value: float(Math.pow(base.value.toNumber(), n.toNumber())), unit: {} };
+};
+
+// `index ⁿ√ radicand`; exact when the root is a short decimal (³√8 = 2)
+export const rootQuantity = (index: Quantity, radicand: Quantity): Quantity => {
+  requireDimensionless(index, 'ⁿ√');
+  if (index.value.isZero()) throw new CalculationError('divisionByZero');
+  const n = index.value.toNumber();
+  const x = radicand.value;
+
+  if (Number.isInteger(n) && n > 0) {
+    const unit = scaleUnit(radicand.unit, 1, n);
+    if (n === 2) return { value: x.sqrt(), unit };
+    if (x.isNegative() && n % 2 === 0) throw new CalculationError('invalidExpression');
+    const estimate = Math.sign(x.toNumber()) * Math.pow(Math.abs(x.toNumber()), 1 / n);
+    const candidate = float(estimate).round(10);
+    if (candidate.pow(n).equals(x)) return { value: candidate, unit };
+    return { value: float(estimate), unit };
+  }
+
+  requireDimensionless(radicand, 'ⁿ√');
+  return { value: float(Math.pow(x.toNumber(), 1 / n)), unit: {} };
+};
+
+export const applyFunction = (fn: MathFunction, arg: Quantity): Quantity => {
+  switch (fn) {
+    case 'abs': return { value: arg.value.abs(), unit: arg.unit };
+    case 'round': return { value: arg.value.round(0), unit: arg.unit };
+    case '√': return rootQuantity({ value: Decimal.from(2), unit: {} }, arg);
+  }
+
+  requireDimensionless(arg, fn);
+  const x = arg.value.toNumber();
+  switch (fn) {
+    case 'sin': return { value: float(Math.sin(x)), unit: {} };
+    case 'cos': return { value: float(Math.cos(x)), unit: {} };
+    case 'tan': {
+      // tan is undefined at odd multiples of π/2; float noise yields huge values instead of Infinity
+      if (Math.abs(Math.cos(x)) < 1e-15) throw new CalculationError('invalidExpression');
+      return { value: float(Math.tan(x)), unit: {} };
+    }
+    case 'log':
+    case 'ln': {
+      if (x <= 0) throw new CalculationError('invalidExpression');
+      return { value: float(fn === 'log' ? Math.log10(x) : Math.log(x)), unit: {} };
+    }
+  }
+};
@@ -0,0 +1,39 @@
+import type { ExpressionToken } from './calculator';
+
+// Structural rules of the token sequence, shared by keypad input, the text parser and the evaluator.
+//
+//   - A "+" or "-" where an operand is expected (start, after an operator, "(" or a function) is unary: -3, 2 × -(1 + 2)
+//   - Adjacent values multiply: 2(3), (1)(2), (2)単価, π(…), (…)2
+//   - Postfix operators (%, 税込, 税抜) follow a value and complete it: 10%, (…)税込
+
+const isOpenParen = (token: ExpressionToken): boolean => token.type === 'parenthesis' && token.value === '(';
+const isCloseParen = (token: ExpressionToken): boolean => token.type === 'parenthesis' && token.value === ')';
+
+// True when the token after `prev` must start an operand (undefined = start of expression)
+export const expectsOperandAfter = (prev: ExpressionToken | undefined): boolean =>
+  !prev || prev.type === 'operator' || prev.type === 'function' || isOpenParen(prev);
+
+export const isSignOperator = (token: ExpressionToken): boolean =>
+  token.type === 'operator' && (token.value === '+' || token.value === '-');
+
+export const isUnaryAt = (tokens: ExpressionToken[], index: number): boolean =>
+  isSignOperator(tokens[index]) && expectsOperandAfter(tokens[index - 1]);
+
+// Tokens that complete a value, after which another value implies multiplication
+export const endsValue = (token: ExpressionToken | undefined): boolean =>
+  !!token && (token.type === 'operand' || token.type === 'constant' || token.type === 'ans' || token.type === 'postfix' || isCloseParen(token));
+
+const startsValue = (token: ExpressionToken): boolean =>
+  token.type === 'operand' || token.type === 'constant' || token.type === 'ans' || token.type === 'function' || isOpenParen(token);
+
+// Makes implicit multiplication explicit so the evaluator only sees binary operators between values
+export const insertImplicitMultiplication = (tokens: ExpressionToken[]): ExpressionToken[] => {
+  const result: ExpressionToken[] = [];
+  tokens.forEach(token => {
+    if (endsValue(result[result.length - 1]) && startsValue(token)) {
+      result.push({ type: 'operator', value: '×' });
+    }
+    result.push(token);
+  });
+  return result;
+};
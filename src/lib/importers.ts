@@ -0,0 +1,230 @@
+import type { SavedVariable, VariableColor } from './calculator';
+import { Decimal } from './decimal';
+import { isReadableLabel, normalizeDigits } from './expressionText';
+import { isVariableColor } from './storage';
+
+// Bulk import of variables (shared price lists) from CSV or JSON.
+//
+//   1. parseVariableImport  - reads the file into validated rows plus per-row errors
+//   2. planVariableImport   - matches rows against existing variables and resolves label conflicts (preview)
+//   3. Calculator.importVariables - applies the plan
+//
+// CSV needs a header row; columns are matched by name (label/name/名前, value/値, unit/単位, color/色),
+// so files written by exportVariables import unchanged. JSON accepts an array of variables or
+// the `{ variables: [...] }` document written by exportVariables.
+
+export interface ImportRow {
+  row: number; // 1-based line (CSV, header = 1) or array index + 1 (JSON)
+  label: string;
+  value: string;
+  unit?: string;
+  color?: VariableColor;
+}
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+}
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+export interface ImportPlanEntry extends ImportRow {
+  action: 'create' | ConflictResolution;
+  targetLabel: string; // Label the variable is saved under (differs from `label` when renamed)
+  existing?: SavedVariable; // Variable whose label the row conflicts with
+}
+
+export interface ImportPlanOptions {
+  onConflict: ConflictResolution;
+  overrides?: Record<number, ConflictResolution>; // Per-row choice, keyed by ImportRow.row
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+const COLUMN_ALIASES: Record<string, keyof Omit<ImportRow, 'row'>> = {
+  label: 'label', name: 'label', 名前: 'label', ラベル: 'label',
+  value: 'value', 値: 'value', 金額: 'value',
+  unit: 'unit', 単位: 'unit',
+  color: 'color', 色: 'color',
+};
+
+// --- CSV ---
+
+// RFC 4180 reader: quoted fields may contain separators, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new ImportFormatError('Unterminated quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// --- Row validation ---
+
+const validateRow = (row: number, fields: Record<string, unknown>): ImportRow | ImportRowError => {
+  const label = typeof fields.label === 'string' ? fields.label.trim() : '';
+  if (!label) return { row, message: 'Missing label' };
+  // Expressions could not refer to it, and copied expressions would lose it
+  if (!isReadableLabel(label)) return { row, message: `Label cannot be used in expressions: ${label}` };
+
+  const rawValue = typeof fields.value === 'number' ? String(fields.value) : typeof fields.value === 'string' ? fields.value : '';
+  const value = normalizeDigits(rawValue).replace(/[,\s]/g, '');
+  if (!value) return { row, message: `Missing value for ${label}` };
+  if (!Decimal.isValid(value)) return { row, message: `Invalid value for ${label}: ${rawValue}` };
+
+  if (fields.unit !== undefined && typeof fields.unit !== 'string') return { row, message: `Invalid unit for ${label}` };
+  const unit = typeof fields.unit === 'string' ? fields.unit.trim() : '';
+
+  const color = typeof fields.color === 'string' ? fields.color.trim().toLowerCase() : fields.color;
+  if (color !== undefined && color !== '' && !isVariableColor(color)) {
+    return { row, message: `Unknown color for ${label}: ${String(fields.color)}` };
+  }
+
+  return {
+    row,
+    label,
+    value: Decimal.from(value).toString(),
+    unit: unit || undefined,
+    color: isVariableColor(color) ? color : undefined,
+  };
+};
+
+const collect = (candidates: [number, Record<string, unknown>][]): ParsedImport => {
+  const result: ParsedImport = { rows: [], errors: [] };
+  const seen = new Map<string, number>();
+  candidates.forEach(([row, fields]) => {
+    const validated = validateRow(row, fields);
+    if ('message' in validated) {
+      result.errors.push(validated);
+      return;
+    }
+    const first = seen.get(validated.label);
+    if (first !== undefined) {
+      result.errors.push({ row, message: `Duplicate label ${validated.label} (first on row ${first})` });
+      return;
+    }
+    seen.set(validated.label, row);
+    result.rows.push(validated);
+  });
+  return result;
+};
+
+const parseCsvVariables = (text: string): ParsedImport => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) throw new ImportFormatError('The file is empty');
+  const columns = header.map(name => COLUMN_ALIASES[name.trim().toLowerCase()] ?? COLUMN_ALIASES[name.trim()]);
+  if (!columns.includes('label') || !columns.includes('value')) {
+    throw new ImportFormatError('CSV header needs "label" and "value" columns');
+  }
+
+  const candidates: [number, Record<string, unknown>][] = [];
+  lines.forEach((fields, i) => {
+    if (fields.every(f => f.trim() === '')) return; // Blank line
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, c) => {
+      if (column && fields[c] !== undefined) record[column] = fields[c];
+    });
+    candidates.push([i + 2, record]);
+  });
+  return collect(candidates);
+};
+
+const parseJsonVariables = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError('The file is not valid JSON');
+  }
+  const entries = Array.isArray(data)
+    ? data
+    : typeof data === 'object' && data !== null && Array.isArray((data as Record<string, unknown>).variables)
+      ? (data as Record<string, unknown[]>).variables
+      : null;
+  if (!entries) throw new ImportFormatError('JSON must be an array of variables or { "variables": [...] }');
+
+  const candidates: [number, Record<string, unknown>][] = [];
+  const invalid: ImportRowError[] = [];
+  entries.forEach((entry, i) => {
+    if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) candidates.push([i + 1, entry as Record<string, unknown>]);
+    else invalid.push({ row: i + 1, message: 'Entry is not an object' });
+  });
+  const result = collect(candidates);
+  result.errors = [...result.errors, ...invalid].sort((a, b) => a.row - b.row);
+  return result;
+};
+
+// Format is taken from the file name when given, otherwise guessed from the content
+export const parseVariableImport = (text: string, fileName?: string): ParsedImport => {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = fileName ? /\.json$/i.test(fileName) : /^\s*[[{]/.test(content);
+  return isJson ? parseJsonVariables(content) : parseCsvVariables(content);
+};
+
+// --- Conflict resolution ---
+
+// "単価" -> "単価_2", "単価_3", ... whichever is free. No spaces or parentheses: "単価 (2)" would read back as 単価 × 2
+const uniqueLabel = (label: string, taken: Set<string>): string => {
+  let n = 2;
+  while (taken.has(`${label}_${n}`)) n++;
+  return `${label}_${n}`;
+};
+
+export const planVariableImport = (rows: ImportRow[], existing: SavedVariable[], options: ImportPlanOptions): ImportPlanEntry[] => {
+  const taken = new Set(existing.map(v => v.label));
+  rows.forEach(r => taken.add(r.label));
+
+  return rows.map(row => {
+    const conflict = existing.find(v => v.label === row.label);
+    if (!conflict) return { ...row, action: 'create', targetLabel: row.label };
+
+    const action = options.overrides?.[row.row] ?? options.onConflict;
+    if (action !== 'rename') return { ...row, action, targetLabel: row.label, existing: conflict };
+    const targetLabel = uniqueLabel(row.label, taken);
+    taken.add(targetLabel);
+    return { ...row, action, targetLabel, existing: conflict };
+  });
+};
@@ -0,0 +1,34 @@
+import type { ExpressionToken } from './calculator';
+import { formatSymbol } from './expressionText';
+
+// Symbolic names for results, built from the operand labels of their expression:
+//
+//   単価(1200円) × 数量(3)           ->  単価×数量
+//   単価×数量(3600円) + 送料(500円)   ->  単価×数量+送料
+//   単価×数量+送料 × 2               ->  (単価×数量+送料)×2
+//
+// Unlabelled numbers appear as their value; without any labelled operand the result stays unnamed.
+// The unit is derived separately, by the evaluator.
+
+// Longer names are more noise than help
+export const MAX_RESULT_NAME_LENGTH = 40;
+
+const SUM_OPERATOR = /[+\-−]/;
+
+export const deriveResultName = (tokens: ExpressionToken[]): string | null => {
+  if (!tokens.some(t => t.type === 'operand' && t.label)) return null;
+
+  // A carried-over sum needs parentheses once anything binds tighter than + and -
+  const bindsTighter = tokens.some(t =>
+    (t.type === 'operator' && t.value !== '+' && t.value !== '-') || t.type === 'function' || t.type === 'postfix'
+  );
+  const name = tokens
+    .map(token => {
+      if (token.type === 'ans') return token.value;
+      if (token.type !== 'operand') return formatSymbol(token);
+      if (!token.label) return token.value;
+      return bindsTighter && SUM_OPERATOR.test(token.label) ? `(${token.label})` : token.label;
+    })
+    .join('');
+  return name.length <= MAX_RESULT_NAME_LENGTH ? name : null;
+};
@@ -0,0 +1,61 @@
+import type { Operation } from './calculator';
+import { Decimal } from './decimal';
+import { Quantity, addQuantities, divideQuantities, multiplyQuantities, subtractQuantities } from './units';
+
+// Business-calculator percent and consumption tax. Both are postfix operators on the value before them:
+//
+//   a + b%  -> a + a × b/100   (markup: 2000 + 10% = 2200)
+//   a - b%  -> a - a × b/100   (discount: 2000 - 10% = 1800)
+//   a × b%  -> a × b/100       (percent of: 2000 × 10% = 200)
+//   a ÷ b%  -> a ÷ b × 100     (ratio: 50 ÷ 200% = 25, i.e. 50 is 25% of 200)
+//   b%      -> b/100           (anywhere else)
+//   a 税込  -> a × (1 + rate/100)
+//   a 税抜  -> a ÷ (1 + rate/100)
+//
+// Tax tokens record the rate they were entered with, so history keeps its meaning when the setting changes.
+
+export type PostfixOperator = '%' | '税込' | '税抜';
+export type TaxOperator = Exclude<PostfixOperator, '%'>;
+
+export const POSTFIX_OPERATORS: PostfixOperator[] = ['%', '税込', '税抜'];
+
+export const isPostfixOperator = (value: string): value is PostfixOperator => (POSTFIX_OPERATORS as string[]).includes(value);
+
+export interface TaxSettings {
+  rate: string; // Consumption tax rate in percent ("10")
+}
+
+// Standard and reduced (food, newspapers) consumption tax rates
+export const TAX_RATES = ['10', '8'];
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = { rate: '10' };
+
+const HUNDRED = Decimal.from(100);
+
+export const isTaxRate = (value: unknown): value is string =>
+  typeof value === 'string' && Decimal.isValid(value) && !Decimal.from(value).isNegative() && Decimal.from(value).compare(HUNDRED) <= 0;
+
+export const isTaxSettings = (value: unknown): value is TaxSettings =>
+  typeof value === 'object' && value !== null && isTaxRate((value as Record<string, unknown>).rate);
+
+// 10% on its own -> 0.1
+export const percentValue = (percent: Quantity): Quantity => ({ value: percent.value.dividedBy(HUNDRED), unit: percent.unit });
+
+// Operators for which a percentage on the right has a business meaning
+export const isPercentOperation = (op: string): op is '+' | '-' | '×' | '÷' =>
+  op === '+' || op === '-' || op === '×' || op === '÷';
+
+export const applyPercentOperation = (op: Extract<Operation, '+' | '-' | '×' | '÷'>, base: Quantity, percent: Quantity): Quantity => {
+  switch (op) {
+    case '+': return addQuantities(base, multiplyQuantities(base, percentValue(percent)));
+    case '-': return subtractQuantities(base, multiplyQuantities(base, percentValue(percent)));
+    case '×': return multiplyQuantities(base, percentValue(percent));
+    case '÷': return multiplyQuantities(divideQuantities(base, percent), { value: HUNDRED, unit: {} });
+  }
+};
+
+// The unit is kept: 1000円 税込 = 1100円
+export const applyTax = (op: TaxOperator, amount: Quantity, rate: string): Quantity => {
+  const factor = Decimal.ONE.plus(Decimal.from(rate).dividedBy(HUNDRED));
+  return { value: op === '税込' ? amount.value.times(factor) : amount.value.dividedBy(factor), unit: amount.unit };
+};
@@ -0,0 +1,52 @@
+import { Decimal, RoundingMode } from './decimal';
+import { formatUnit, parseUnit } from './units';
+
+// Rounding policy for calculated results and saved variables.
+// A global rule applies to every result; a per-unit rule (e.g. 円 -> integer) takes precedence for that unit.
+// `null` means no policy: results keep full precision and are only shortened to fit the display.
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  digits: number; // Decimal places to keep (0 = integer)
+}
+
+export interface RoundingSettings {
+  rule: RoundingRule | null;
+  units: Record<string, RoundingRule>; // Keyed by the formatted unit ("円", "円/個")
+}
+
+export const ROUNDING_MODES: RoundingMode[] = ['halfUp', 'halfEven', 'floor', 'ceil', 'truncate'];
+
+export const MAX_ROUNDING_DIGITS = 20;
+
+export const DEFAULT_ROUNDING_SETTINGS: RoundingSettings = { rule: null, units: {} };
+
+export const isRoundingRule = (value: unknown): value is RoundingRule => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { mode, digits } = value as Record<string, unknown>;
+  return (ROUNDING_MODES as unknown[]).includes(mode) &&
+    typeof digits === 'number' && Number.isInteger(digits) && digits >= 0 && digits <= MAX_ROUNDING_DIGITS;
+};
+
+export const isRoundingSettings = (value: unknown): value is RoundingSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { rule, units } = value as Record<string, unknown>;
+  return (rule === null || isRoundingRule(rule)) &&
+    typeof units === 'object' && units !== null && !Array.isArray(units) &&
+    Object.values(units).every(isRoundingRule);
+};
+
+const canonicalUnit = (unit: string): string | null => formatUnit(parseUnit(unit));
+
+// Unit keys are compared in canonical form, so a rule for "円" also covers "yen" and "¥"
+export const resolveRoundingRule = (settings: RoundingSettings, unit: string | null | undefined): RoundingRule | null => {
+  const canonical = unit ? canonicalUnit(unit) : null;
+  if (canonical) {
+    const match = Object.keys(settings.units).find(key => canonicalUnit(key) === canonical);
+    if (match) return settings.units[match];
+  }
+  return settings.rule;
+};
+
+export const applyRounding = (value: Decimal, rule: RoundingRule | null): Decimal =>
+  rule ? value.round(rule.digits, rule.mode) : value;
@@ -0,0 +1,97 @@
+import type { ExpressionToken, SavedVariable } from './calculator';
+import { Decimal } from './decimal';
+import { CalculationError, CalculationErrorInfo } from './errors';
+import { ExpressionParseError, LineReference, parseExpression } from './expressionText';
+import { Quantity, addQuantities, formatUnit, parseUnit } from './units';
+
+// Notepad-style calculation sheet: one labelled expression per line.
+//
+//   単価      1200円
+//   数量      3個
+//   小計      単価 × 数量          <- earlier lines by label ...
+//   送料      500円
+//             #3 + 送料             <- ... or by number
+//   ─────────────────
+//   Total     sum of the lines no other line refers to (here only the last one)
+//
+// A line another line refers to is already part of that line's result, so the total leaves it out:
+// 単価 is counted once, through 小計. Results with and without a unit are not added up (no total),
+// unlike "3 kg + 2" in an expression, where the plain number adopts the unit.
+// Lines may only refer to lines above them, so evaluating top to bottom is dependency order:
+// every line is computed after everything it uses, and a change reaches the lines below it.
+// Saved variables can be used like in the main expression.
+
+export interface SheetLine {
+  id: string;
+  label: string; // Optional name other lines can refer to ("" = reference by number only)
+  text: string; // Expression source as typed
+}
+
+export interface SheetLineResult extends SheetLine {
+  number: number; // 1-based, used by "#n" references
+  tokens: ExpressionToken[];
+  value: string | null; // Null for blank lines and lines that fail
+  unit: string | null;
+  error: CalculationErrorInfo | null;
+  dependsOn: string[]; // Ids of the lines this one refers to
+}
+
+export interface SheetResult {
+  lines: SheetLineResult[];
+  total: { value: string, unit: string | null } | null; // Null when the lines' units cannot be added up
+}
+
+export interface SheetOptions {
+  variables: SavedVariable[];
+  taxRate?: string; // Rate for 税込/税抜 without one
+  // Evaluates a parsed line with the calculator's rules (rounding); the value keeps all its digits,
+  // since later lines compute with it
+  evaluate: (tokens: ExpressionToken[]) => { value: string, unit: string | null };
+}
+
+const toErrorInfo = (error: unknown): CalculationErrorInfo =>
+  error instanceof ExpressionParseError
+    ? { kind: 'invalidExpression', message: error.message, tokenIndex: null }
+    : CalculationError.from(error).toInfo();
+
+export const evaluateSheet = (lines: SheetLine[], options: SheetOptions): SheetResult => {
+  const results: SheetLineResult[] = [];
+
+  lines.forEach((line, i) => {
+    const result: SheetLineResult = { ...line, number: i + 1, tokens: [], value: null, unit: null, error: null, dependsOn: [] };
+    results.push(result);
+    if (!line.text.trim()) return;
+
+    // Only lines above are visible; a line that failed cannot be used
+    const references: LineReference[] = results.slice(0, i).map(r => ({ id: r.id, label: r.label, number: r.number, value: r.value, unit: r.unit }));
+    try {
+      result.tokens = parseExpression(line.text, { variables: options.variables, lines: references, taxRate: options.taxRate });
+      result.dependsOn = Array.from(new Set(result.tokens.filter(t => t.lineId).map(t => t.lineId!)));
+      const { value, unit } = options.evaluate(result.tokens);
+      result.value = value;
+      result.unit = unit;
+    } catch (e) {
+      result.error = toErrorInfo(e);
+    }
+  });
+
+  return { lines: results, total: sumLines(results) };
+};
+
+const sumLines = (lines: SheetLineResult[]): SheetResult['total'] => {
+  const used = new Set<string>();
+  lines.forEach(line => line.dependsOn.forEach(id => used.add(id)));
+  const totalled = lines.filter(line => line.value !== null && !used.has(line.id));
+  const withUnit = totalled.filter(line => line.unit);
+  if (withUnit.length > 0 && withUnit.length < totalled.length) return null;
+
+  let total: Quantity = { value: Decimal.ZERO, unit: {} };
+  try {
+    totalled.forEach(line => {
+      total = addQuantities(total, { value: Decimal.from(line.value!), unit: parseUnit(line.unit) });
+    });
+  } catch {
+    return null;
+  }
+  return { value: total.value.toString(), unit: formatUnit(total.unit) };
+};
@@ -0,0 +1,122 @@
+import { Decimal } from './decimal';
+
+// Goal seek: finds x with f(x) = target for an expression f of one unknown operand.
+//
+//   1. Linear: f sampled at three points lies on a line -> x = a + (target - f(a)) / slope, verified
+//   2. Otherwise numeric: f is sampled on wide, roughly logarithmic grids around the current value and
+//      around 0 (small roots next to a pole, as in 1 ÷ x); every sign change of f(x) - target is
+//      narrowed down by bisection
+//
+// Points where f cannot be evaluated (division by zero, √ of a negative, ...) are skipped, so a pole
+// is never mistaken for a root. Roots are snapped to the shortest decimal that is at least as accurate.
+
+export type SolveResult =
+  | { kind: 'solved', value: Decimal, method: 'linear' | 'numeric' }
+  | { kind: 'none' }
+  | { kind: 'multiple', values: Decimal[] } // Several roots in the searched range
+  | { kind: 'any' }; // f is constant and equal to the target
+
+const BISECTION_STEPS = 100;
+const MAX_SNAP_DIGITS = 10;
+// Relative tolerance for "equal" results
+const TOLERANCE = Decimal.from('1e-12');
+// Sample offsets in multiples of the search scale
+const SAMPLE_OFFSETS = ['0.001', '0.01', '0.1', '0.25', '0.5', '1', '2', '5', '10', '100', '1000', '10000', '1000000', '100000000'];
+
+const TWO = Decimal.from(2);
+
+const tryEvaluate = (f: (x: Decimal) => Decimal, x: Decimal): Decimal | null => {
+  try {
+    return f(x);
+  } catch {
+    return null;
+  }
+};
+
+export const solve = (f: (x: Decimal) => Decimal, target: Decimal, start: Decimal): SolveResult => {
+  const scale = start.abs().compare(Decimal.ONE) > 0 ? start.abs() : Decimal.ONE;
+  const tolerance = (target.abs().compare(Decimal.ONE) > 0 ? target.abs() : Decimal.ONE).times(TOLERANCE);
+  const g = (x: Decimal): Decimal | null => tryEvaluate(f, x)?.minus(target) ?? null;
+  const isRoot = (x: Decimal): boolean => {
+    const residual = g(x);
+    return residual !== null && residual.abs().compare(tolerance) <= 0;
+  };
+
+  // Shortest rounding of x whose residual is no worse than x's own
+  const snap = (x: Decimal): Decimal => {
+    const residual = g(x)?.abs();
+    for (let digits = 0; digits <= MAX_SNAP_DIGITS; digits++) {
+      const candidate = x.round(digits);
+      const candidateResidual = g(candidate)?.abs();
+      if (candidateResidual && residual && candidateResidual.compare(residual) <= 0) return candidate;
+    }
+    return x;
+  };
+
+  // 1. Linear
+  const left = start.minus(scale);
+  const right = start.plus(scale);
+  const [fa, fl, fr] = [start, left, right].map(x => tryEvaluate(f, x));
+  if (fa && fl && fr) {
+    const magnitude = [fa, fl, fr, Decimal.ONE].reduce((max, y) => y.abs().compare(max) > 0 ? y.abs() : max, Decimal.ZERO);
+    // Equal steps on both sides (zero second difference)
+    const isLinear = fr.minus(fa).minus(fa.minus(fl)).abs().compare(magnitude.times(TOLERANCE)) <= 0;
+    const slope = fr.minus(fa).dividedBy(scale);
+    if (isLinear && fr.minus(fa).abs().compare(magnitude.times(TOLERANCE)) <= 0) {
+      return fa.minus(target).abs().compare(tolerance) <= 0 ? { kind: 'any' } : { kind: 'none' };
+    }
+    if (isLinear) {
+      const x = start.plus(target.minus(fa).dividedBy(slope));
+      if (isRoot(x)) return { kind: 'solved', value: snap(x), method: 'linear' };
+    }
+  }
+
+  // 2. Numeric
+  const points = [start, Decimal.ZERO];
+  SAMPLE_OFFSETS.forEach(offset => {
+    const d = scale.times(Decimal.from(offset));
+    points.push(start.minus(d), start.plus(d), d.negated(), d);
+  });
+  points.sort((a, b) => a.compare(b));
+  const samples = points.map(x => ({ x, y: g(x) }));
+
+  const roots: Decimal[] = [];
+  const addRoot = (x: Decimal) => {
+    const value = snap(x);
+    if (!roots.some(r => r.minus(value).abs().compare(scale.times(TOLERANCE).times(Decimal.from(1000))) <= 0)) roots.push(value);
+  };
+
+  samples.forEach((sample, i) => {
+    if (sample.y === null) return;
+    if (sample.y.isZero()) {
+      addRoot(sample.x);
+      return;
+    }
+    const next = samples[i + 1];
+    if (!next || next.y === null || next.y.isZero() || sample.y.isNegative() === next.y.isNegative()) return;
+
+    let [lo, hi, yLo] = [sample.x, next.x, sample.y];
+    for (let step = 0; step < BISECTION_STEPS; step++) {
+      const mid = lo.plus(hi).dividedBy(TWO);
+      const yMid = g(mid);
+      if (yMid === null) return; // Undefined inside the bracket: a pole, not a root
+      if (yMid.isZero()) {
+        lo = hi = mid;
+        break;
+      }
+      if (yMid.isNegative() === yLo.isNegative()) {
+        lo = mid;
+        yLo = yMid;
+      } else {
+        hi = mid;
+      }
+    }
+    const root = lo.plus(hi).dividedBy(TWO);
+    // A sign change across a jump (e.g. 1/x around 0) narrows down to a point that is no root
+    if (isRoot(root)) addRoot(root);
+  });
+
+  if (roots.length === 0) return { kind: 'none' };
+  if (roots.length > 1) return { kind: 'multiple', values: roots.sort((a, b) => a.compare(b)) };
+  return { kind: 'solved', value: roots[0], method: 'numeric' };
+};
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Calculator } from './calculator';
+import { CALCULATOR_STATE_VERSION, InvalidStateError, parseCalculatorState } from './state';
+import { createDefaultSettings } from './storage';
+
+// State as version 1 wrote it: no settings, memory, sheet or templates yet
+const versionOneState = () => {
+  const state: Record<string, unknown> = { ...new Calculator().toJSON(), version: 1 };
+  ['settings', 'memory', 'sheet', 'templates'].forEach(field => delete state[field]);
+  return state;
+};
+
+describe('calculator state', () => {
+  it('migrates old versions to the current one', () => {
+    const state = parseCalculatorState(versionOneState());
+    assert.equal(state.version, CALCULATOR_STATE_VERSION);
+    assert.deepEqual(state.settings, createDefaultSettings());
+    assert.deepEqual(state.memory, []);
+    assert.deepEqual(state.sheet, []);
+    assert.deepEqual(state.templates, []);
+  });
+
+  it('round-trips through JSON', () => {
+    const calculator = new Calculator();
+    calculator.saveVariable('単価', '1200', '円');
+    calculator.inputDigit('7');
+    const restored = Calculator.fromJSON(JSON.stringify(calculator));
+    assert.deepEqual(restored.toJSON(), calculator.toJSON());
+  });
+
+  it('names the field that failed validation', () => {
+    const state = { ...new Calculator().toJSON(), previousValue: 'abc' };
+    assert.throws(() => parseCalculatorState(state), (e: unknown) => e instanceof InvalidStateError && e.field === 'previousValue');
+    assert.throws(() => parseCalculatorState({ ...state, version: CALCULATOR_STATE_VERSION + 1 }), InvalidStateError);
+  });
+});
@@ -0,0 +1,136 @@
+import type { CalculatorSettings, ExpressionToken, HistoryItem, MemoryRegister, Operation, SavedVariable, VariableColor } from './calculator';
+import { CalculationErrorInfo, isCalculationErrorKind } from './errors';
+import { DEFAULT_NUMBER_FORMAT } from './format';
+import { DEFAULT_ROUNDING_SETTINGS } from './rounding';
+import { DEFAULT_TAX_SETTINGS } from './percent';
+import type { SheetLine } from './sheet';
+import type { FormulaTemplate } from './templates';
+import { isCalculatorSettings, isExpressionToken, isFormulaTemplate, isHistoryItem, isMemoryRegister, isNumberString, isSavedVariable, isSheetLine, isVariableColor } from './storage';
+
+// Complete, serializable state of a Calculator (see Calculator.toJSON / Calculator.fromJSON).
+// Unlike the persisted document in storage.ts, this also covers the expression being typed,
+// so a session or a bug report can be reproduced exactly.
+
+export const CALCULATOR_STATE_VERSION = 7;
+
+export interface CalculatorState {
+  version: number;
+  currentValue: string;
+  currentLabel: string | null;
+  currentUnit: string | null;
+  currentColor: VariableColor | null;
+  currentVariableId: string | null;
+  previousValue: string | null;
+  previousLabel: string | null;
+  previousUnit: string | null;
+  previousColor: VariableColor | null;
+  operation: Operation | null;
+  shouldResetScreen: boolean;
+  history: HistoryItem[];
+  variables: SavedVariable[];
+  memory: MemoryRegister[];
+  sheet: SheetLine[];
+  templates: FormulaTemplate[];
+  lastExpressionTokens: ExpressionToken[] | null;
+  inputHistory: ExpressionToken[];
+  isIntermediateResult: boolean;
+  error: CalculationErrorInfo | null;
+  settings: CalculatorSettings;
+}
+
+export class InvalidStateError extends Error {
+  constructor(message: string, public readonly field: string | null = null) {
+    super(field ? `${message}: ${field}` : message);
+    this.name = 'InvalidStateError';
+  }
+}
+
+const OPERATIONS: Operation[] = ['+', '-', '×', '÷', '^', 'ⁿ√'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNullableString = (value: unknown): boolean => value === null || typeof value === 'string';
+
+// The input buffer may hold a number still being typed ("-", "1.2e+"), which one more digit completes
+const isBufferValue = (value: unknown): boolean => typeof value === 'string' && (isNumberString(value) || isNumberString(`${value}0`));
+
+const isNullableColor = (value: unknown): boolean => value === null || isVariableColor(value);
+
+const isOperation = (value: unknown): boolean => typeof value === 'string' && (OPERATIONS as string[]).includes(value);
+
+const isTokenList = (value: unknown): boolean => Array.isArray(value) && value.every(isExpressionToken);
+
+const isErrorInfo = (value: unknown): boolean =>
+  isRecord(value) &&
+  isCalculationErrorKind(value.kind) &&
+  typeof value.message === 'string' &&
+  (value.tokenIndex === null || typeof value.tokenIndex === 'number');
+
+// Field -> check; every field is required so a state never silently falls back to defaults
+const FIELD_CHECKS: Record<Exclude<keyof CalculatorState, 'version'>, (value: unknown) => boolean> = {
+  currentValue: isBufferValue,
+  currentLabel: isNullableString,
+  currentUnit: isNullableString,
+  currentColor: isNullableColor,
+  currentVariableId: isNullableString,
+  previousValue: value => value === null || isNumberString(value),
+  previousLabel: isNullableString,
+  previousUnit: isNullableString,
+  previousColor: isNullableColor,
+  operation: value => value === null || isOperation(value),
+  shouldResetScreen: value => typeof value === 'boolean',
+  history: value => Array.isArray(value) && value.every(isHistoryItem),
+  variables: value => Array.isArray(value) && value.every(isSavedVariable),
+  memory: value => Array.isArray(value) && value.every(isMemoryRegister),
+  sheet: value => Array.isArray(value) && value.every(isSheetLine),
+  templates: value => Array.isArray(value) && value.every(isFormulaTemplate),
+  lastExpressionTokens: value => value === null || isTokenList(value),
+  inputHistory: isTokenList,
+  isIntermediateResult: value => typeof value === 'boolean',
+  error: value => value === null || isErrorInfo(value),
+  settings: isCalculatorSettings,
+};
+
+// Each entry upgrades a state from version `n` to `n + 1`
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1 -> 2: rounding settings became part of the state
+  1: state => ({ ...state, settings: { rounding: DEFAULT_ROUNDING_SETTINGS } }),
+  // Version 2 -> 3: number format settings
+  2: state => ({ ...state, settings: { ...(isRecord(state.settings) ? state.settings : {}), format: DEFAULT_NUMBER_FORMAT } }),
+  // Version 3 -> 4: consumption tax rate
+  3: state => ({ ...state, settings: { ...(isRecord(state.settings) ? state.settings : {}), tax: DEFAULT_TAX_SETTINGS } }),
+  // Version 4 -> 5: memory registers
+  4: state => ({ ...state, memory: [] }),
+  // Version 5 -> 6: calculation sheet
+  5: state => ({ ...state, sheet: [] }),
+  // Version 6 -> 7: formula templates
+  6: state => ({ ...state, templates: [] }),
+};
+
+// Accepts a state object or its JSON text; throws InvalidStateError naming the first invalid field
+export const parseCalculatorState = (input: unknown): CalculatorState => {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new InvalidStateError('State is not valid JSON');
+    }
+  }
+  if (!isRecord(raw)) throw new InvalidStateError('State must be an object');
+
+  if (typeof raw.version !== 'number') throw new InvalidStateError('Missing state version', 'version');
+  if (raw.version > CALCULATOR_STATE_VERSION) throw new InvalidStateError(`Unsupported state version ${raw.version}`, 'version');
+  let state = raw;
+  for (let version = raw.version; version < CALCULATOR_STATE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new InvalidStateError(`Missing state migration from version ${version}`, 'version');
+    state = migrate(state);
+  }
+
+  (Object.keys(FIELD_CHECKS) as (keyof typeof FIELD_CHECKS)[]).forEach(field => {
+    if (!FIELD_CHECKS[field](state[field])) throw new InvalidStateError('Invalid state field', field);
+  });
+  return { ...(state as unknown as CalculatorState), version: CALCULATOR_STATE_VERSION };
+};
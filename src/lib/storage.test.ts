@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Calculator } from './calculator';
+import { CalculatorStore, MemoryStorageAdapter, STORAGE_SCHEMA_VERSION, createDefaultSettings, migrateDocument } from './storage';
+
+describe('storage', () => {
+  it('migrates an unversioned document and drops invalid entries', () => {
+    const doc = migrateDocument({
+      history: [],
+      variables: [{ label: 'a', value: '5' }, { label: 'b', value: 'not a number' }],
+    });
+    assert.equal(doc.version, STORAGE_SCHEMA_VERSION);
+    assert.deepEqual(doc.variables.map(v => v.label), ['a']);
+    assert.equal(typeof doc.variables[0].id, 'string');
+    assert.deepEqual(doc.settings, createDefaultSettings());
+    assert.deepEqual(doc.templates, []);
+  });
+
+  it('restores saved state through a store', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const first = new Calculator();
+    await first.attachStore(new CalculatorStore(adapter));
+    first.saveVariable('a', '5');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const second = new Calculator();
+    await second.attachStore(new CalculatorStore(adapter));
+    assert.deepEqual(second.getVariables().map(v => [v.label, v.value]), [['a', '5']]);
+  });
+});
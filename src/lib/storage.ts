@@ -0,0 +1,288 @@
+import type { CalculatorSettings, ExpressionToken, HistoryItem, MemoryRegister, SavedVariable, VariableColor } from './calculator';
+import { Decimal } from './decimal';
+import { DEFAULT_ROUNDING_SETTINGS, isRoundingSettings } from './rounding';
+import { DEFAULT_NUMBER_FORMAT, isNumberFormatSettings } from './format';
+import { DEFAULT_TAX_SETTINGS, isTaxSettings } from './percent';
+import type { SheetLine } from './sheet';
+import type { FormulaTemplate, TemplateParameter } from './templates';
+
+// Persistence for calculator history, saved variables, memory registers, the calculation sheet and formula templates.
+// Adapters only move strings around; CalculatorStore owns the schema, versioning and migrations.
+
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface PersistedState {
+  history: HistoryItem[];
+  variables: SavedVariable[];
+  memory: MemoryRegister[];
+  sheet: SheetLine[];
+  templates: FormulaTemplate[];
+  settings: CalculatorSettings;
+}
+
+interface PersistedDocument extends PersistedState {
+  version: number;
+}
+
+export const STORAGE_KEY = 'varb-calculator';
+export const STORAGE_SCHEMA_VERSION = 8;
+
+// In-memory adapter (tests, SSR, or browsers without storage)
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  public async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private readonly storage: Storage = window.localStorage) {}
+
+  public async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private static readonly STORE_NAME = 'kv';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = STORAGE_KEY) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IndexedDBStorageAdapter.STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(IndexedDBStorageAdapter.STORE_NAME, mode).objectStore(IndexedDBStorageAdapter.STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+// Picks the best adapter available in the current environment
+export const createBrowserStorageAdapter = (): StorageAdapter => {
+  if (typeof window === 'undefined') return new MemoryStorageAdapter();
+  if (typeof window.indexedDB !== 'undefined') return new IndexedDBStorageAdapter();
+  try {
+    if (window.localStorage) return new LocalStorageAdapter(window.localStorage);
+  } catch {
+    // localStorage access can throw (e.g. disabled cookies); fall through
+  }
+  return new MemoryStorageAdapter();
+};
+
+// --- Schema validation ---
+
+const VARIABLE_COLORS: VariableColor[] = ['red', 'yellow', 'blue', 'orange', 'green', 'white'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+// Canonical number string ("-1234.5", "1.2e+25"); Decimal.from alone would also take "1,234" and padding
+export const isNumberString = (value: unknown): boolean =>
+  typeof value === 'string' && /^[-+]?[\d.]+(?:[eE][-+]?\d+)?$/.test(value) && Decimal.isValid(value);
+
+const TOKEN_TYPES: ExpressionToken['type'][] = ['operand', 'operator', 'parenthesis', 'function', 'constant', 'postfix', 'ans'];
+
+export const isVariableColor = (value: unknown): value is VariableColor =>
+  typeof value === 'string' && (VARIABLE_COLORS as string[]).includes(value);
+
+export const isExpressionToken = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.type === 'string' &&
+  (TOKEN_TYPES as string[]).includes(value.type) &&
+  typeof value.value === 'string' &&
+  // Operands and Ans carry a number; the other kinds a symbol or name
+  (value.type !== 'operand' && value.type !== 'ans' || isNumberString(value.value)) &&
+  isOptionalString(value.label) &&
+  isOptionalString(value.unit) &&
+  (value.color === undefined || isVariableColor(value.color)) &&
+  isOptionalString(value.variableId) &&
+  (value.rate === undefined || isNumberString(value.rate)) &&
+  isOptionalString(value.lineId) &&
+  (value.ansIndex === undefined || (typeof value.ansIndex === 'number' && Number.isInteger(value.ansIndex) && value.ansIndex > 0));
+
+export const isHistoryItem = (value: unknown): value is HistoryItem =>
+  isRecord(value) &&
+  Array.isArray(value.expressionTokens) &&
+  value.expressionTokens.every(isExpressionToken) &&
+  isNumberString(value.result) &&
+  isOptionalString(value.unit) &&
+  isOptionalString(value.name);
+
+export const isSavedVariable = (value: unknown): value is SavedVariable =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  isNumberString(value.value) &&
+  isOptionalString(value.unit) &&
+  typeof value.timestamp === 'number' &&
+  (value.color === undefined || isVariableColor(value.color)) &&
+  (value.formula === undefined || (Array.isArray(value.formula) && value.formula.every(isExpressionToken)));
+
+export const isMemoryRegister = (value: unknown): value is MemoryRegister =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  isNumberString(value.value) &&
+  isOptionalString(value.unit);
+
+export const isSheetLine = (value: unknown): value is SheetLine =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  typeof value.text === 'string';
+
+const isTemplateParameter = (value: unknown): value is TemplateParameter =>
+  isRecord(value) &&
+  typeof value.label === 'string' &&
+  isOptionalString(value.unit) &&
+  (value.color === undefined || isVariableColor(value.color)) &&
+  isNumberString(value.value) &&
+  Array.isArray(value.tokenIndexes) &&
+  value.tokenIndexes.every(index => typeof index === 'number' && Number.isInteger(index) && index >= 0);
+
+export const isFormulaTemplate = (value: unknown): value is FormulaTemplate =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.tokens) &&
+  value.tokens.every(isExpressionToken) &&
+  Array.isArray(value.parameters) &&
+  value.parameters.every(isTemplateParameter) &&
+  // Parameters must point inside the template's tokens
+  value.parameters.every(p => p.tokenIndexes.every(index => index < (value.tokens as unknown[]).length)) &&
+  typeof value.timestamp === 'number';
+
+export const isCalculatorSettings = (value: unknown): value is CalculatorSettings =>
+  isRecord(value) && isRoundingSettings(value.rounding) && isNumberFormatSettings(value.format) && isTaxSettings(value.tax);
+
+export const createDefaultSettings = (): CalculatorSettings => ({
+  rounding: DEFAULT_ROUNDING_SETTINGS,
+  format: DEFAULT_NUMBER_FORMAT,
+  tax: DEFAULT_TAX_SETTINGS,
+});
+
+// --- Migrations ---
+
+// Each entry upgrades a document from version `n` to `n + 1`
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0: unversioned payload; variables may lack timestamps
+  0: doc => ({
+    history: Array.isArray(doc.history) ? doc.history : [],
+    variables: (Array.isArray(doc.variables) ? doc.variables : []).map((v: unknown) =>
+      isRecord(v) && typeof v.timestamp !== 'number' ? { ...v, timestamp: Date.now() } : v
+    ),
+  }),
+  // Version 1 -> 2: variables get stable ids so operands can link to them
+  1: doc => ({
+    ...doc,
+    variables: (Array.isArray(doc.variables) ? doc.variables : []).map((v: unknown, i: number) =>
+      isRecord(v) && typeof v.id !== 'string' ? { ...v, id: `var-migrated-${i}-${String(v.label ?? '')}` } : v
+    ),
+  }),
+  // Version 2 -> 3: settings (rounding policy) are stored alongside the data
+  2: doc => ({ ...doc, settings: { rounding: DEFAULT_ROUNDING_SETTINGS } }),
+  // Version 3 -> 4: number format settings
+  3: doc => ({ ...doc, settings: { ...(isRecord(doc.settings) ? doc.settings : {}), format: DEFAULT_NUMBER_FORMAT } }),
+  // Version 4 -> 5: consumption tax rate for 税込/税抜
+  4: doc => ({ ...doc, settings: { ...(isRecord(doc.settings) ? doc.settings : {}), tax: DEFAULT_TAX_SETTINGS } }),
+  // Version 5 -> 6: memory registers
+  5: doc => ({ ...doc, memory: [] }),
+  // Version 6 -> 7: calculation sheet
+  6: doc => ({ ...doc, sheet: [] }),
+  // Version 7 -> 8: formula templates
+  7: doc => ({ ...doc, templates: [] }),
+};
+
+export const migrateDocument = (raw: unknown): PersistedDocument => {
+  if (!isRecord(raw)) throw new Error('Invalid storage document');
+  let doc = raw;
+  let version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > STORAGE_SCHEMA_VERSION) {
+    throw new Error(`Unsupported storage version: ${version}`);
+  }
+  while (version < STORAGE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Missing storage migration from version ${version}`);
+    doc = migrate(doc);
+    version++;
+  }
+  // Drop entries that do not match the current schema rather than failing the whole load
+  return {
+    version,
+    history: Array.isArray(doc.history) ? doc.history.filter(isHistoryItem) : [],
+    variables: Array.isArray(doc.variables) ? doc.variables.filter(isSavedVariable) : [],
+    memory: Array.isArray(doc.memory) ? doc.memory.filter(isMemoryRegister) : [],
+    sheet: Array.isArray(doc.sheet) ? doc.sheet.filter(isSheetLine) : [],
+    templates: Array.isArray(doc.templates) ? doc.templates.filter(isFormulaTemplate) : [],
+    settings: isCalculatorSettings(doc.settings) ? doc.settings : createDefaultSettings(),
+  };
+};
+
+export class CalculatorStore {
+  constructor(private readonly adapter: StorageAdapter, private readonly key: string = STORAGE_KEY) {}
+
+  public async load(): Promise<PersistedState | null> {
+    const raw = await this.adapter.getItem(this.key);
+    if (raw === null) return null;
+    const { history, variables, memory, sheet, templates, settings } = migrateDocument(JSON.parse(raw));
+    return { history, variables, memory, sheet, templates, settings };
+  }
+
+  public async save(state: PersistedState): Promise<void> {
+    const doc: PersistedDocument = { version: STORAGE_SCHEMA_VERSION, ...state };
+    await this.adapter.setItem(this.key, JSON.stringify(doc));
+  }
+
+  public async clear(): Promise<void> {
+    await this.adapter.removeItem(this.key);
+  }
+}
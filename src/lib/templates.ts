@@ -0,0 +1,78 @@
+import type { ExpressionToken, SavedVariable, VariableColor } from './calculator';
+import { Decimal } from './decimal';
+import { CalculationError } from './errors';
+import { joinExpression } from './expressionText';
+
+// Reusable expression structures. Every operand of the saved expression becomes a parameter:
+//
+//   単価 × 数量 × (1 + 税率)   ->  単価, 数量, #3, 税率
+//
+// Operands with the same label and unit share one parameter; plain numbers are named by their position
+// among the operands ("#3"). Running a template asks for each parameter, pre-filled from the saved
+// variable with the same label and unit, or else with the value the template was saved with.
+
+export interface TemplateParameter {
+  label: string;
+  unit?: string;
+  color?: VariableColor;
+  value: string; // Value when the template was saved
+  tokenIndexes: number[]; // Operand tokens filled with this parameter
+}
+
+export interface FormulaTemplate {
+  id: string;
+  name: string;
+  tokens: ExpressionToken[];
+  parameters: TemplateParameter[];
+  timestamp: number;
+}
+
+const isOperandToken = (token: ExpressionToken): boolean => token.type === 'operand' || token.type === 'ans';
+
+// "単価 × 数量 × (1 + 税率)"
+export const describeTemplateTokens = (tokens: ExpressionToken[]): string =>
+  joinExpression(tokens, token => token.label ?? token.value);
+
+// Ans operands are frozen to plain labelled operands: a template must not depend on the history at run time
+export const createTemplate = (id: string, name: string, source: ExpressionToken[]): FormulaTemplate => {
+  const tokens: ExpressionToken[] = source.map(({ type, value, label, unit, color, rate }) =>
+    type === 'ans' ? { type: 'operand', value, label, unit } : { type, value, label, unit, color, rate }
+  );
+  const parameters: TemplateParameter[] = [];
+  let operandCount = 0;
+  tokens.forEach((token, i) => {
+    if (!isOperandToken(token)) return;
+    operandCount++;
+    const shared = token.label ? parameters.find(p => p.label === token.label && p.unit === token.unit) : undefined;
+    if (shared) {
+      shared.tokenIndexes.push(i);
+      return;
+    }
+    parameters.push({ label: token.label ?? `#${operandCount}`, unit: token.unit, color: token.color, value: token.value, tokenIndexes: [i] });
+  });
+  return { id, name: name.trim() || describeTemplateTokens(tokens), tokens, parameters, timestamp: Date.now() };
+};
+
+const findVariable = (parameter: TemplateParameter, variables: SavedVariable[]): SavedVariable | undefined =>
+  variables.find(v => v.label === parameter.label && (v.unit || undefined) === parameter.unit);
+
+// Values to pre-fill the parameter prompts with
+export const getParameterDefaults = (template: FormulaTemplate, variables: SavedVariable[]): string[] =>
+  template.parameters.map(p => findVariable(p, variables)?.value ?? p.value);
+
+// Expression with the parameters filled in; operands stay linked to a variable whose value was accepted as is
+export const applyTemplate = (template: FormulaTemplate, values: string[], variables: SavedVariable[]): ExpressionToken[] => {
+  const tokens = template.tokens.map(t => ({ ...t }));
+  template.parameters.forEach((parameter, i) => {
+    const value = values[i];
+    if (value === undefined || !Decimal.isValid(value)) {
+      throw new CalculationError('invalidExpression', `Invalid value for ${parameter.label}`);
+    }
+    const canonical = Decimal.from(value).toString();
+    const variable = findVariable(parameter, variables);
+    parameter.tokenIndexes.forEach(index => {
+      tokens[index] = { ...tokens[index], value: canonical, variableId: variable?.value === canonical ? variable.id : undefined };
+    });
+  });
+  return tokens;
+};
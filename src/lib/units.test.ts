@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Decimal } from './decimal';
+import { Quantity, UnitMismatchError, addQuantities, divideQuantities, formatUnit, multiplyQuantities, parseUnit } from './units';
+
+const q = (value: string, unit: string | null): Quantity => ({ value: Decimal.from(value), unit: parseUnit(unit) });
+
+describe('units', () => {
+  it('parses and formats compound units', () => {
+    assert.deepEqual(parseUnit('km'), { km: 1 });
+    assert.equal(formatUnit(parseUnit('m/s')), 'm/s');
+    assert.equal(formatUnit(parseUnit('m^2')), 'm²');
+    assert.equal(formatUnit(parseUnit(null)), null);
+  });
+
+  it('converts to the first unit when adding compatible units', () => {
+    const sum = addQuantities(q('1', 'km'), q('500', 'm'));
+    assert.equal(sum.value.toString(), '1.5');
+    assert.equal(formatUnit(sum.unit), 'km');
+  });
+
+  it('combines units when multiplying and dividing', () => {
+    const area = multiplyQuantities(q('3', 'm'), q('4', 'm'));
+    assert.equal(area.value.toString(), '12');
+    assert.equal(formatUnit(area.unit), 'm²');
+    const speed = divideQuantities(q('10', 'm'), q('2', 's'));
+    assert.equal(speed.value.toString(), '5');
+    assert.equal(formatUnit(speed.unit), 'm/s');
+  });
+
+  it('refuses to add different dimensions', () => {
+    assert.throws(() => addQuantities(q('1', 'm'), q('1', 'kg')), UnitMismatchError);
+  });
+});
@@ -0,0 +1,187 @@
+import { Decimal } from './decimal';
+import { CalculationError } from './errors';
+
+// Unit-aware arithmetic for labelled operands.
+// A unit belongs to a dimension and carries a factor relative to that dimension's base unit,
+// so compatible units (kg/g, L/mL, ...) convert automatically while incompatible ones are rejected.
+
+export interface UnitDefinition {
+  symbol: string;
+  dimension: string;
+  factor: Decimal; // Size of one unit expressed in the dimension's base unit
+}
+
+// Compound unit: symbol -> exponent (e.g. 円/個 is { 円: 1, 個: -1 })
+export type UnitTerms = Record<string, number>;
+
+export interface Quantity {
+  value: Decimal;
+  unit: UnitTerms;
+}
+
+export class UnitMismatchError extends CalculationError {
+  constructor(public readonly left: string, public readonly right: string) {
+    super('unitMismatch', `Unit mismatch: ${left} / ${right}`);
+    this.name = 'UnitMismatchError';
+  }
+}
+
+const defineUnits = (dimension: string, units: [string, string][]): UnitDefinition[] =>
+  units.map(([symbol, factor]) => ({ symbol, dimension, factor: Decimal.from(factor) }));
+
+const UNIT_REGISTRY: Record<string, UnitDefinition> = Object.fromEntries(
+  [
+    ...defineUnits('mass', [['t', '1000000'], ['kg', '1000'], ['g', '1'], ['mg', '0.001']]),
+    ...defineUnits('volume', [['L', '1000'], ['dL', '100'], ['mL', '1']]),
+    ...defineUnits('length', [['km', '1000'], ['m', '1'], ['cm', '0.01'], ['mm', '0.001']]),
+    ...defineUnits('time', [['h', '3600'], ['min', '60'], ['s', '1']]),
+    ...defineUnits('currency', [['円', '1'], ['千円', '1000'], ['万円', '10000']]),
+    // Counting units are deliberately distinct dimensions: 個 and 枚 do not convert.
+    // In a product with a measured quantity they only count (1200円 × 3個 = 3600円), see multiplicative
+    ...defineUnits('count:個', [['個', '1']]),
+    ...defineUnits('count:枚', [['枚', '1']]),
+    ...defineUnits('count:本', [['本', '1']]),
+  ].map(def => [def.symbol, def])
+);
+
+const UNIT_ALIASES: Record<string, string> = {
+  l: 'L', ml: 'mL', dl: 'dL', ℓ: 'L', '¥': '円', yen: '円',
+};
+
+const SUPERSCRIPTS: Record<string, string> = { '2': '²', '3': '³' };
+const SUPERSCRIPT_DIGITS: Record<string, string> = { '²': '2', '³': '3' };
+
+export const getUnitDefinition = (symbol: string): UnitDefinition => {
+  const canonical = UNIT_ALIASES[symbol] ?? symbol;
+  // Unknown (custom) units form their own dimension
+  return UNIT_REGISTRY[canonical] ?? { symbol: canonical, dimension: `custom:${canonical}`, factor: Decimal.ONE };
+};
+
+export const getRegisteredUnits = (): UnitDefinition[] => Object.values(UNIT_REGISTRY);
+
+const parseTerm = (term: string, sign: number, terms: UnitTerms): void => {
+  const match = /^(.+?)(?:\^(-?\d+)|([²³]))?$/.exec(term.trim());
+  if (!match || !match[1]) return;
+  const exponent = match[2] ? parseInt(match[2], 10) : match[3] ? parseInt(SUPERSCRIPT_DIGITS[match[3]], 10) : 1;
+  const symbol = getUnitDefinition(match[1]).symbol;
+  terms[symbol] = (terms[symbol] ?? 0) + sign * exponent;
+  if (terms[symbol] === 0) delete terms[symbol];
+};
+
+// Parses "円", "円/個", "kg·m", "m²" into unit terms
+export const parseUnit = (unit: string | null | undefined): UnitTerms => {
+  const terms: UnitTerms = {};
+  if (!unit) return terms;
+  const [numerator, ...denominators] = unit.split('/');
+  numerator.split(/[·*]/).filter(t => t.trim() !== '' && t.trim() !== '1').forEach(t => parseTerm(t, 1, terms));
+  denominators.forEach(part => part.split(/[·*]/).filter(t => t.trim() !== '').forEach(t => parseTerm(t, -1, terms)));
+  return terms;
+};
+
+const formatTerm = (symbol: string, exponent: number): string => {
+  if (exponent === 1) return symbol;
+  const exp = String(exponent);
+  return symbol + (SUPERSCRIPTS[exp] ?? `^${exp}`);
+};
+
+// Inverse of parseUnit; returns null for dimensionless quantities
+export const formatUnit = (terms: UnitTerms): string | null => {
+  const entries = Object.entries(terms);
+  if (entries.length === 0) return null;
+  const numerator = entries.filter(([, e]) => e > 0).map(([s, e]) => formatTerm(s, e)).join('·');
+  const denominator = entries.filter(([, e]) => e < 0).map(([s, e]) => formatTerm(s, -e)).join('·');
+  if (!denominator) return numerator;
+  return `${numerator || '1'}/${denominator}`;
+};
+
+export const isDimensionless = (terms: UnitTerms): boolean => Object.keys(terms).length === 0;
+
+// Raises every unit term to `numerator / denominator` (m² ^ 1/2 -> m); fails if an exponent would be fractional
+export const scaleUnit = (terms: UnitTerms, numerator: number, denominator: number = 1): UnitTerms => {
+  const scaled: UnitTerms = {};
+  Object.entries(terms).forEach(([symbol, exponent]) => {
+    const next = (exponent * numerator) / denominator;
+    if (!Number.isInteger(next)) throw new UnitMismatchError(formatUnit(terms) ?? '', `^${numerator}/${denominator}`);
+    if (next !== 0) scaled[symbol] = next;
+  });
+  return scaled;
+};
+
+const dimensionSignature = (terms: UnitTerms): string => {
+  const dims: Record<string, number> = {};
+  Object.entries(terms).forEach(([symbol, exponent]) => {
+    const { dimension } = getUnitDefinition(symbol);
+    dims[dimension] = (dims[dimension] ?? 0) + exponent;
+  });
+  return Object.entries(dims)
+    .filter(([, e]) => e !== 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([d, e]) => `${d}^${e}`)
+    .join(',');
+};
+
+const powFactor = (factor: Decimal, exponent: number): Decimal => {
+  let result = Decimal.ONE;
+  for (let i = 0; i < Math.abs(exponent); i++) result = result.times(factor);
+  return exponent < 0 ? Decimal.ONE.dividedBy(result) : result;
+};
+
+// Factor of a compound unit relative to the base units of its dimensions
+const unitFactor = (terms: UnitTerms): Decimal =>
+  Object.entries(terms).reduce((acc, [symbol, exponent]) => acc.times(powFactor(getUnitDefinition(symbol).factor, exponent)), Decimal.ONE);
+
+const convertValue = (value: Decimal, from: UnitTerms, to: UnitTerms): Decimal => {
+  const fromFactor = unitFactor(from);
+  const toFactor = unitFactor(to);
+  if (fromFactor.equals(toFactor)) return value;
+  return value.times(fromFactor).dividedBy(toFactor);
+};
+
+export const areUnitsCompatible = (a: UnitTerms, b: UnitTerms): boolean =>
+  dimensionSignature(a) === dimensionSignature(b);
+
+// Addition/subtraction: right side is converted into the left side's unit.
+// A unitless operand adopts the other side's unit ("3 kg + 2" reads as 5 kg).
+const additive = (a: Quantity, b: Quantity, apply: (x: Decimal, y: Decimal) => Decimal): Quantity => {
+  if (isDimensionless(b.unit)) return { value: apply(a.value, b.value), unit: a.unit };
+  if (isDimensionless(a.unit)) return { value: apply(a.value, b.value), unit: b.unit };
+  if (!areUnitsCompatible(a.unit, b.unit)) {
+    throw new UnitMismatchError(formatUnit(a.unit) ?? '', formatUnit(b.unit) ?? '');
+  }
+  return { value: apply(a.value, convertValue(b.value, b.unit, a.unit)), unit: a.unit };
+};
+
+const isCountUnit = (symbol: string): boolean => getUnitDefinition(symbol).dimension.startsWith('count:');
+
+// Multiplication/division: terms of the right side that share a dimension with a left term
+// are converted into the left term's symbol so they can combine or cancel (円/kg × g -> 円).
+// A product keeps counting units only when nothing else is left: 円 × 個 -> 円, but 個 × 2 -> 個;
+// per-count units (円/個) stay, so 円 ÷ 個 is a unit price that cancels against 個 again.
+const multiplicative = (a: Quantity, b: Quantity, sign: 1 | -1): Quantity => {
+  const unit: UnitTerms = { ...a.unit };
+  let value = b.value;
+  Object.entries(b.unit).forEach(([symbol, exponent]) => {
+    const { dimension } = getUnitDefinition(symbol);
+    const target = Object.keys(unit).find(s => s !== symbol && getUnitDefinition(s).dimension === dimension) ?? symbol;
+    if (target !== symbol) {
+      value = convertValue(value, { [symbol]: exponent }, { [target]: exponent });
+    }
+    unit[target] = (unit[target] ?? 0) + sign * exponent;
+    if (unit[target] === 0) delete unit[target];
+  });
+  if (sign === 1 && Object.keys(unit).some(symbol => !isCountUnit(symbol))) {
+    Object.keys(unit).forEach(symbol => {
+      if (isCountUnit(symbol) && unit[symbol] > 0) delete unit[symbol];
+    });
+  }
+  const result = sign === 1 ? a.value.times(value) : a.value.dividedBy(value);
+  return { value: result, unit };
+};
+
+export const addQuantities = (a: Quantity, b: Quantity): Quantity => additive(a, b, (x, y) => x.plus(y));
+export const subtractQuantities = (a: Quantity, b: Quantity): Quantity => additive(a, b, (x, y) => x.minus(y));
+export const multiplyQuantities = (a: Quantity, b: Quantity): Quantity => multiplicative(a, b, 1);
+export const divideQuantities = (a: Quantity, b: Quantity): Quantity => {
+  if (b.value.isZero()) throw new CalculationError('divisionByZero');
+  return multiplicative(a, b, -1);
+};
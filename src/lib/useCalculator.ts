@@ -0,0 +1,120 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Calculator, CalculatorChangeType, CalculatorSettings, ExpressionToken, HistoryItem, MemoryRegister, PreviewResult, SavedVariable } from './calculator';
+import type { CalculationErrorInfo } from './errors';
+import type { SheetResult } from './sheet';
+import type { FormulaTemplate } from './templates';
+
+// React binding for the Calculator engine. Each part of the view is cached per calculator and only
+// rebuilt when the engine's versions of its sections moved, so useCalculator(calc, 'history')
+// re-renders on history changes only while useCalculator(calc) re-renders on any change.
+
+export interface CalculatorDisplay {
+  value: string;
+  unit: string | null;
+  label: string | null; // Name of the displayed value, e.g. the derived name of a result
+  error: CalculationErrorInfo | null;
+  isIntermediate: boolean;
+  preview: PreviewResult | null; // Running result of the expression being typed
+  canUndo: boolean;
+  canRedo: boolean;
+  settings: CalculatorSettings; // Rounding and number format (history and variables are formatted with it)
+}
+
+export interface CalculatorHistoryView {
+  items: HistoryItem[];
+  stale: boolean[]; // Per item: a linked variable changed since it was calculated
+}
+
+export interface CalculatorView {
+  expression: ExpressionToken[];
+  display: CalculatorDisplay;
+  history: CalculatorHistoryView;
+  variables: SavedVariable[];
+  memory: MemoryRegister[];
+  sheet: SheetResult;
+  templates: FormulaTemplate[];
+}
+
+const BUILDERS: { [K in CalculatorChangeType]: (calculator: Calculator) => CalculatorView[K] } = {
+  expression: calculator => calculator.getExpressionTokens(),
+  display: calculator => ({
+    value: calculator.getDisplayValue(),
+    unit: calculator.getCurrentUnit(),
+    label: calculator.getCurrentLabel(),
+    error: calculator.getError(),
+    isIntermediate: calculator.isIntermediate(),
+    preview: calculator.getPreview(),
+    canUndo: calculator.canUndo(),
+    canRedo: calculator.canRedo(),
+    settings: calculator.getSettings(),
+  }),
+  history: calculator => ({
+    items: [...calculator.getHistory()],
+    stale: calculator.getHistory().map((_, i) => calculator.isHistoryItemStale(i)),
+  }),
+  variables: calculator => [...calculator.getVariables()],
+  memory: calculator => [...calculator.getMemory()],
+  sheet: calculator => calculator.getSheet(),
+  templates: calculator => [...calculator.getTemplates()],
+};
+
+// Engine sections each part of the view is built from; history staleness depends on the variables as well
+const SOURCES: { [K in CalculatorChangeType]: CalculatorChangeType[] } = {
+  expression: ['expression'],
+  display: ['display'],
+  history: ['history', 'variables'],
+  variables: ['variables'],
+  memory: ['memory'],
+  sheet: ['sheet'],
+  templates: ['templates'],
+};
+
+const PARTS = Object.keys(SOURCES) as CalculatorChangeType[];
+
+// Key = the section versions the part was built at
+type PartCache = Partial<Record<CalculatorChangeType, { key: string; value: unknown }>>;
+
+const partCaches = new WeakMap<Calculator, PartCache>();
+const views = new WeakMap<Calculator, CalculatorView>();
+
+// Rebuilds a part only when the versions of its sections moved; otherwise the cached part keeps its identity
+const getPart = <K extends CalculatorChangeType>(calculator: Calculator, part: K): CalculatorView[K] => {
+  let cache = partCaches.get(calculator);
+  if (!cache) {
+    cache = {};
+    partCaches.set(calculator, cache);
+  }
+  const versions = calculator.getSectionVersions();
+  const key = SOURCES[part].map(source => versions[source]).join(':');
+  const cached = cache[part];
+  if (cached && cached.key === key) return cached.value as CalculatorView[K];
+  const value = BUILDERS[part](calculator);
+  cache[part] = { key, value };
+  return value;
+};
+
+// The whole view keeps its identity as long as none of its parts changed
+const getView = (calculator: Calculator): CalculatorView => {
+  const next = {} as Record<CalculatorChangeType, unknown>;
+  PARTS.forEach(part => {
+    next[part] = getPart(calculator, part);
+  });
+  const view = views.get(calculator);
+  if (view && PARTS.every(part => view[part] === next[part])) return view;
+  views.set(calculator, next as unknown as CalculatorView);
+  return next as unknown as CalculatorView;
+};
+
+export function useCalculator(calculator: Calculator): CalculatorView;
+export function useCalculator<K extends CalculatorChangeType>(calculator: Calculator, part: K): CalculatorView[K];
+export function useCalculator(calculator: Calculator, part?: CalculatorChangeType) {
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      calculator.subscribe(() => onChange()),
+    [calculator]
+  );
+  const getSnapshot = () => {
+    return part ? getPart(calculator, part) : getView(calculator);
+  };
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}